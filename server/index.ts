@@ -0,0 +1,294 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { GeminiService } from '../src/services/geminiService';
+import {
+  GenerationRequest,
+  EditRequest,
+  SegmentationRequest,
+  DescribeRequest,
+  RequestOptions
+} from '../src/services/imageProvider';
+import { STREAM_CONTENT_TYPE, ProxyStreamLine } from '../src/services/proxyImageProvider';
+import { MAX_SEED } from '../src/services/imageProvider';
+import { AspectRatio, GenerationParameters, ResponseModality } from '../src/types';
+import { ASPECT_RATIO_SIZES } from '../src/utils/imageUtils';
+import { ImageErrorKind, ImageProviderError, SerializedImageError, serializeImageError } from '../src/services/imageErrors';
+
+// Small proxy that keeps the Gemini API key on the server. The browser talks to
+// these endpoints through ProxyImageProvider instead of calling Google directly.
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES) || 20 * 1024 * 1024;
+const MAX_IMAGES_PER_REQUEST = 4;
+const MAX_TEXT_LENGTH = 4000;
+const MAX_CANDIDATES = 4;
+const RESPONSE_MODALITIES: ResponseModality[] = ['IMAGE', 'TEXT'];
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env or the environment before starting the proxy.');
+  process.exit(1);
+}
+
+const gemini = new GeminiService(apiKey);
+
+// How each provider error kind is reported to the browser
+const ERROR_STATUS: Record<ImageErrorKind, number> = {
+  'rate-limit': 429,
+  'safety': 422,
+  'invalid-input': 400,
+  'network': 503,
+  'empty-response': 502,
+  // Non-standard, but widely used for "client closed request"
+  'cancelled': 499,
+  'unknown': 502,
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const declaredLength = Number(req.headers['content-length']);
+  if (declaredLength > MAX_BODY_BYTES) {
+    throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req) {
+    received += chunk.length;
+    // Content-Length can be missing or wrong, so count as we go too
+    if (received > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new Error();
+    return body;
+  } catch {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+}
+
+function requireText(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${field}" is required`);
+  }
+  if (value.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(400, `"${field}" is longer than ${MAX_TEXT_LENGTH} characters`);
+  }
+  return value;
+}
+
+function optionalText(body: Record<string, unknown>, field: string): string | undefined {
+  return body[field] === undefined ? undefined : requireText(body, field);
+}
+
+function requireImage(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || !value) {
+    throw new HttpError(400, `"${field}" must be a base64 image`);
+  }
+  return value;
+}
+
+function optionalImages(body: Record<string, unknown>, field: string): string[] | undefined {
+  const value = body[field];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some(image => typeof image !== 'string')) {
+    throw new HttpError(400, `"${field}" must be an array of base64 images`);
+  }
+  if (value.length > MAX_IMAGES_PER_REQUEST) {
+    throw new HttpError(400, `"${field}" accepts at most ${MAX_IMAGES_PER_REQUEST} images`);
+  }
+  return value;
+}
+
+function optionalNumber(
+  body: Record<string, unknown>,
+  field: string,
+  min: number = -Infinity,
+  max: number = Infinity
+): number | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new HttpError(400, `"${field}" must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function optionalInteger(
+  body: Record<string, unknown>,
+  field: string,
+  min: number,
+  max: number
+): number | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    throw new HttpError(400, `"${field}" must be a whole number between ${min} and ${max}`);
+  }
+  return value as number;
+}
+
+function optionalParameters(body: Record<string, unknown>): GenerationParameters | undefined {
+  const value = body.parameters;
+  if (value === undefined) return undefined;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new HttpError(400, '"parameters" must be an object');
+  }
+
+  const parameters = value as Record<string, unknown>;
+  const modalities = parameters.responseModalities;
+  if (modalities !== undefined && (
+    !Array.isArray(modalities) ||
+    modalities.length === 0 ||
+    modalities.some(modality => !RESPONSE_MODALITIES.includes(modality))
+  )) {
+    throw new HttpError(400, `"responseModalities" must list some of ${RESPONSE_MODALITIES.join(', ')}`);
+  }
+  const aspectRatio = parameters.aspectRatio;
+  if (aspectRatio !== undefined && !(typeof aspectRatio === 'string' && aspectRatio in ASPECT_RATIO_SIZES)) {
+    throw new HttpError(400, `"aspectRatio" must be one of ${Object.keys(ASPECT_RATIO_SIZES).join(', ')}`);
+  }
+
+  return {
+    temperature: optionalNumber(parameters, 'temperature', 0, 2),
+    seed: optionalInteger(parameters, 'seed', 0, MAX_SEED),
+    topP: optionalNumber(parameters, 'topP', 0, 1),
+    topK: optionalNumber(parameters, 'topK', 1, 1000),
+    candidateCount: optionalNumber(parameters, 'candidateCount', 1, MAX_CANDIDATES),
+    responseModalities: modalities as ResponseModality[] | undefined,
+    aspectRatio: aspectRatio as AspectRatio | undefined,
+  };
+}
+
+// onProgress is only set when the browser asked for a streamed response
+type RouteHandler = (body: Record<string, unknown>, options: RequestOptions) => Promise<unknown>;
+
+const routes: Record<string, RouteHandler> = {
+  '/api/generate': async (body, options) => {
+    const request: GenerationRequest = {
+      prompt: requireText(body, 'prompt'),
+      referenceImages: optionalImages(body, 'referenceImages'),
+      parameters: optionalParameters(body),
+    };
+    return gemini.generateImage(request, options);
+  },
+
+  '/api/edit': async (body, options) => {
+    const maskImage = body.maskImage === undefined ? undefined : requireImage(body, 'maskImage');
+    const request: EditRequest = {
+      instruction: requireText(body, 'instruction'),
+      originalImage: requireImage(body, 'originalImage'),
+      referenceImages: optionalImages(body, 'referenceImages'),
+      maskImage,
+      parameters: optionalParameters(body),
+    };
+    return gemini.editImage(request, options);
+  },
+
+  '/api/segment': async (body, { signal }) => {
+    const request: SegmentationRequest = {
+      image: requireImage(body, 'image'),
+      query: requireText(body, 'query'),
+    };
+    return gemini.segmentImage(request, { signal });
+  },
+
+  '/api/describe': async (body, { signal }) => {
+    const request: DescribeRequest = {
+      image: requireImage(body, 'image'),
+      prompt: optionalText(body, 'prompt'),
+    };
+    return { text: await gemini.describeImage(request, { signal }) };
+  },
+};
+
+function sendJson(res: ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+const server = createServer(async (req, res) => {
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+  if (req.method === 'GET' && path === '/api/health') {
+    sendJson(res, 200, { ok: true, modelVersion: gemini.modelVersion });
+    return;
+  }
+
+  const handler = routes[path];
+  if (!handler) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  // A browser that cancels drops the connection; stop paying for the upstream call
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  // Streamed responses start on the first progress event; until then a
+  // failure can still be reported with a proper status code
+  const streaming = req.headers.accept?.includes(STREAM_CONTENT_TYPE) ?? false;
+  const writeLine = (line: ProxyStreamLine) => {
+    if (!res.headersSent) res.writeHead(200, { 'Content-Type': STREAM_CONTENT_TYPE });
+    res.write(`${JSON.stringify(line)}\n`);
+  };
+  const sendError = (status: number, payload: SerializedImageError) => {
+    if (res.headersSent) {
+      writeLine({ type: 'error', error: payload });
+      res.end();
+    } else {
+      sendJson(res, status, payload);
+    }
+  };
+
+  try {
+    const body = await readJson(req);
+    const payload = await handler(body, {
+      signal: controller.signal,
+      onProgress: streaming ? (progress) => writeLine({ type: 'progress', progress }) : undefined,
+    });
+    if (controller.signal.aborted) return;
+    if (res.headersSent) {
+      writeLine({ type: 'result', result: payload });
+      res.end();
+    } else {
+      sendJson(res, 200, payload);
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      // Drop the connection rather than reading the rest of an oversized upload
+      if (error.status === 413) res.setHeader('Connection', 'close');
+      sendError(error.status, { error: error.message, kind: 'invalid-input' });
+      return;
+    }
+    if (controller.signal.aborted) return;
+    if (error instanceof ImageProviderError) {
+      sendError(ERROR_STATUS[error.kind], serializeImageError(error));
+      return;
+    }
+    console.error(`${path} failed:`, error);
+    sendError(502, { error: error instanceof Error ? error.message : 'Upstream request failed', kind: 'unknown' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Gemini proxy listening on http://localhost:${PORT}`);
+});
@@ -5,7 +5,11 @@ import { Header } from './components/Header';
 import { PromptComposer } from './components/PromptComposer';
 import { ImageCanvas } from './components/ImageCanvas';
 import { HistoryPanel } from './components/HistoryPanel';
+import { Toaster } from './components/Toaster';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useProjectPersistence } from './hooks/useProjectPersistence';
+import { useStorageMonitor } from './hooks/useStorageMonitor';
+import { useTabSync } from './hooks/useTabSync';
 import { useAppStore } from './store/useAppStore';
 
 const queryClient = new QueryClient({
@@ -19,8 +23,11 @@ const queryClient = new QueryClient({
 
 function AppContent() {
   useKeyboardShortcuts();
+  useProjectPersistence();
+  useStorageMonitor();
+  useTabSync();
   
-  const { showPromptPanel, setShowPromptPanel, showHistory, setShowHistory } = useAppStore();
+  const { showPromptPanel, setShowPromptPanel, setShowHistory } = useAppStore();
   
   // Set mobile defaults on mount
   React.useEffect(() => {
@@ -52,6 +59,7 @@ function AppContent() {
           <HistoryPanel />
         </div>
       </div>
+      <Toaster />
     </div>
   );
 }
@@ -0,0 +1,17 @@
+import React from 'react';
+import { useAssetUrl } from '../hooks/useAssetUrl';
+import { cn } from '../utils/cn';
+
+interface AssetImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  assetId: string;
+}
+
+export const AssetImage: React.FC<AssetImageProps> = ({ assetId, className, alt, ...props }) => {
+  const url = useAssetUrl(assetId);
+
+  if (!url) {
+    return <div className={cn('bg-gray-800', className)} />;
+  }
+
+  return <img src={url} alt={alt} className={className} {...props} />;
+};
@@ -1,10 +1,25 @@
 import React, { useState } from 'react';
 import { Button } from './ui/Button';
-import { HelpCircle } from 'lucide-react';
+import { HelpCircle, FolderOpen, HardDrive, AlertTriangle, ListOrdered, Coins } from 'lucide-react';
 import { InfoModal } from './InfoModal';
+import { ProjectManager } from './ProjectManager';
+import { StoragePanel } from './StoragePanel';
+import { JobQueuePanel } from './JobQueuePanel';
+import { UsagePanel } from './UsagePanel';
+import { useAppStore } from '../store/useAppStore';
+import { useJobStore, isActiveJob } from '../store/useJobStore';
+import { useBudgetStatus } from '../hooks/useBudgetStatus';
+import { cn } from '../utils/cn';
 
 export const Header: React.FC = () => {
+  const { currentProject, storageLevel, sharedProjectTabs } = useAppStore();
   const [showInfoModal, setShowInfoModal] = useState(false);
+  const [showProjectManager, setShowProjectManager] = useState(false);
+  const [showStoragePanel, setShowStoragePanel] = useState(false);
+  const [showJobQueue, setShowJobQueue] = useState(false);
+  const [showUsagePanel, setShowUsagePanel] = useState(false);
+  const budgetStatus = useBudgetStatus();
+  const activeJobCount = useJobStore((state) => state.jobs.filter(isActiveJob).length);
 
   return (
     <>
@@ -25,6 +40,66 @@ export const Header: React.FC = () => {
         </div>
 
         <div className="flex items-center space-x-2">
+          {sharedProjectTabs > 0 && (
+            <div
+              className="flex items-center text-xs text-yellow-400 bg-yellow-400/10 border border-yellow-400/30 px-2 py-1 rounded"
+              title="Changes are synced between tabs, but editing the same project in two places at once can be confusing"
+            >
+              <AlertTriangle className="h-3 w-3 md:mr-1" />
+              <span className="hidden md:inline">
+                Also open in {sharedProjectTabs === 1 ? 'another tab' : `${sharedProjectTabs} other tabs`}
+              </span>
+            </div>
+          )}
+          <Button
+            variant="ghost"
+            onClick={() => setShowProjectManager(true)}
+            className="max-w-[14rem]"
+            title="Projects"
+          >
+            <FolderOpen className="h-5 w-5 md:mr-2 flex-shrink-0" />
+            <span className="hidden md:inline truncate">
+              {currentProject?.title || 'Projects'}
+            </span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowJobQueue(true)}
+            className="relative"
+            title="Request queue"
+          >
+            <ListOrdered className="h-5 w-5" />
+            {activeJobCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full bg-yellow-400 text-gray-900 text-[10px] font-semibold leading-4">
+                {activeJobCount}
+              </span>
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowUsagePanel(true)}
+            className={cn(
+              budgetStatus.level === 'warning' && 'text-yellow-400',
+              budgetStatus.level === 'blocked' && 'text-red-400'
+            )}
+            title={budgetStatus.message || 'Usage & costs'}
+          >
+            <Coins className="h-5 w-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowStoragePanel(true)}
+            className={cn(
+              storageLevel === 'warning' && 'text-yellow-400',
+              storageLevel === 'critical' && 'text-red-400'
+            )}
+            title={storageLevel === 'ok' ? 'Storage' : 'Storage is nearly full'}
+          >
+            <HardDrive className="h-5 w-5" />
+          </Button>
           <Button 
             variant="ghost" 
             size="icon"
@@ -36,6 +111,10 @@ export const Header: React.FC = () => {
       </header>
       
       <InfoModal open={showInfoModal} onOpenChange={setShowInfoModal} />
+      <ProjectManager open={showProjectManager} onOpenChange={setShowProjectManager} />
+      <StoragePanel open={showStoragePanel} onOpenChange={setShowStoragePanel} />
+      <JobQueuePanel open={showJobQueue} onOpenChange={setShowJobQueue} />
+      <UsagePanel open={showUsagePanel} onOpenChange={setShowUsagePanel} />
     </>
   );
 };
\ No newline at end of file
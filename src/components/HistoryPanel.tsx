@@ -4,35 +4,96 @@ import { Button } from './ui/Button';
 import { History, Download, Image as ImageIcon, Layers } from 'lucide-react';
 import { cn } from '../utils/cn';
 import { ImagePreviewModal } from './ImagePreviewModal';
+import { AssetImage } from './AssetImage';
+import { useCanvasImageUrl } from '../hooks/useAssetUrl';
+import { useSavedMasks } from '../hooks/useImageGeneration';
+import { AssetService } from '../services/assetService';
+import { downloadBlob, getImageExtension } from '../utils/imageUtils';
+import { formatParameters, formatAssetSize, formatUsage } from '../utils/formatUtils';
+import { SavedMask } from '../types';
+
+// Text the model wrote next to its images, such as caveats or questions
+const ResponseText: React.FC<{ text: string }> = ({ text }) => (
+  <div>
+    <h5 className="text-xs font-medium text-gray-400 mb-2">Model Response</h5>
+    <p className="text-xs text-gray-300 whitespace-pre-wrap break-words p-2 bg-gray-950 border border-gray-800 rounded">
+      {text}
+    </p>
+  </div>
+);
+
+// A saved mask with its name editable in place; renames are kept on blur or Enter
+const SavedMaskRow: React.FC<{
+  mask: SavedMask;
+  isCurrentImage: boolean;
+  onRename: (name: string) => void;
+  onApply: () => void;
+}> = ({ mask, isCurrentImage, onRename, onApply }) => {
+  const [name, setName] = React.useState(mask.name);
+
+  React.useEffect(() => setName(mask.name), [mask.name]);
+
+  const commit = () => {
+    if (name.trim() && name.trim() !== mask.name) onRename(name.trim());
+    else setName(mask.name);
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <div className={cn(
+        'h-8 w-8 flex-shrink-0 rounded border overflow-hidden bg-black',
+        isCurrentImage ? 'border-purple-500' : 'border-gray-700'
+      )}>
+        <AssetImage assetId={mask.asset.id} alt={mask.name} className="w-full h-full object-cover" />
+      </div>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className="flex-1 min-w-0 h-7 px-2 bg-gray-950 border border-gray-800 rounded text-xs text-gray-300 focus:border-gray-600 outline-none"
+      />
+      <Button variant="outline" size="sm" className="h-7 px-2" onClick={onApply} title="Use as the selection">
+        Use
+      </Button>
+    </div>
+  );
+};
 
 export const HistoryPanel: React.FC = () => {
   const {
     currentProject,
-    canvasImage,
+    canvasAssetId,
     selectedGenerationId,
     selectedEditId,
     selectGeneration,
     selectEdit,
     showHistory,
     setShowHistory,
-    setCanvasImage,
-    selectedTool
+    setCanvasAsset,
+    selectedTool,
+    renameSavedMask
   } = useAppStore();
+  const { applySavedMask } = useSavedMasks();
+
+  const canvasImage = useCanvasImageUrl();
 
   const [previewModal, setPreviewModal] = React.useState<{
     open: boolean;
-    imageUrl: string;
+    assetId: string;
     title: string;
     description?: string;
   }>({
     open: false,
-    imageUrl: '',
+    assetId: '',
     title: '',
     description: ''
   });
 
   const generations = currentProject?.generations || [];
   const edits = currentProject?.edits || [];
+  const savedMasks = currentProject?.masks || [];
 
   // Get current image dimensions
   const [imageDimensions, setImageDimensions] = React.useState<{ width: number; height: number } | null>(null);
@@ -109,14 +170,14 @@ export const HistoryPanel: React.FC = () => {
                 onClick={() => {
                   selectGeneration(generation.id);
                   if (generation.outputAssets[0]) {
-                    setCanvasImage(generation.outputAssets[0].url);
+                    setCanvasAsset(generation.outputAssets[0].id);
                   }
                 }}
               >
                 {generation.outputAssets[0] ? (
                   <>
-                    <img
-                      src={generation.outputAssets[0].url}
+                    <AssetImage
+                      assetId={generation.outputAssets[0].id}
                       alt="Generated variant"
                       className="w-full h-full object-cover"
                     />
@@ -131,6 +192,11 @@ export const HistoryPanel: React.FC = () => {
                 <div className="absolute top-2 left-2 bg-gray-900/80 text-xs px-2 py-1 rounded">
                   #{index + 1}
                 </div>
+                {generation.outputAssets.length > 1 && (
+                  <div className="absolute top-2 right-2 bg-gray-900/80 text-xs px-2 py-1 rounded">
+                    ×{generation.outputAssets.length}
+                  </div>
+                )}
               </div>
             ))}
             
@@ -146,15 +212,15 @@ export const HistoryPanel: React.FC = () => {
                 )}
                 onClick={() => {
                   if (edit.outputAssets[0]) {
-                    setCanvasImage(edit.outputAssets[0].url);
+                    setCanvasAsset(edit.outputAssets[0].id);
                     selectEdit(edit.id);
                     selectGeneration(null);
                   }
                 }}
               >
                 {edit.outputAssets[0] ? (
-                  <img
-                    src={edit.outputAssets[0].url}
+                  <AssetImage
+                    assetId={edit.outputAssets[0].id}
                     alt="Edited variant"
                     className="w-full h-full object-cover"
                   />
@@ -193,6 +259,27 @@ export const HistoryPanel: React.FC = () => {
         </div>
       )}
 
+      {/* Saved Masks, newest first */}
+      {savedMasks.length > 0 && (
+        <div className="mb-4 p-3 bg-gray-900 rounded-lg border border-gray-700 flex-shrink-0">
+          <h4 className="text-xs font-medium text-gray-400 mb-2 flex items-center">
+            <Layers className="h-3 w-3 mr-1" />
+            Saved Masks ({savedMasks.length})
+          </h4>
+          <div className="space-y-2 max-h-40 overflow-y-auto">
+            {[...savedMasks].reverse().map(mask => (
+              <SavedMaskRow
+                key={mask.id}
+                mask={mask}
+                isCurrentImage={!!canvasAssetId && mask.sourceAssetId === canvasAssetId}
+                onRename={(name) => renameSavedMask(mask.id, name)}
+                onApply={() => applySavedMask(mask)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Generation Details */}
       <div className="mb-6 p-4 bg-gray-900 rounded-lg border border-gray-700 flex-1 overflow-y-auto min-h-0">
         <h4 className="text-xs font-medium text-gray-400 mb-2">Generation Details</h4>
@@ -212,13 +299,64 @@ export const HistoryPanel: React.FC = () => {
                     <span>Model:</span>
                     <span>{gen.modelVersion}</span>
                   </div>
-                  {gen.parameters.seed && (
+                  {gen.outputAssets[0] && (
                     <div className="flex justify-between">
-                      <span>Seed:</span>
-                      <span>{gen.parameters.seed}</span>
+                      <span>Size:</span>
+                      <span>{formatAssetSize(gen.outputAssets[0])}</span>
+                    </div>
+                  )}
+                  {formatParameters(gen.parameters).map(([label, value]) => (
+                    <div key={label} className="flex justify-between">
+                      <span>{label}:</span>
+                      <span>{value}</span>
+                    </div>
+                  ))}
+                  {formatUsage(gen).map(([label, value]) => (
+                    <div key={label} className="flex justify-between">
+                      <span>{label}:</span>
+                      <span>{value}</span>
+                    </div>
+                  ))}
+                  {gen.variantSeeds && gen.variantSeeds.length > 0 && (
+                    <div className="flex justify-between">
+                      <span>{gen.variantSeeds.length > 1 ? 'Variant seeds:' : 'Seed used:'}</span>
+                      <span className="ml-2 truncate">{[...new Set(gen.variantSeeds)].join(', ')}</span>
                     </div>
                   )}
                 </div>
+
+                {gen.responseText && <ResponseText text={gen.responseText} />}
+
+                {/* Variants */}
+                {gen.outputAssets.length > 1 && (
+                  <div>
+                    <h5 className="text-xs font-medium text-gray-400 mb-2">
+                      Variants ({gen.outputAssets.length})
+                    </h5>
+                    <div className="grid grid-cols-3 gap-2">
+                      {gen.outputAssets.map((asset, index) => (
+                        <button
+                          key={asset.id}
+                          onClick={() => setCanvasAsset(asset.id)}
+                          className={cn(
+                            'relative aspect-square rounded border overflow-hidden transition-colors',
+                            canvasAssetId === asset.id ? 'border-yellow-400' : 'border-gray-700 hover:border-gray-600'
+                          )}
+                          title={gen.variantSeeds?.[index] !== undefined ? `Seed ${gen.variantSeeds[index]}` : undefined}
+                        >
+                          <AssetImage
+                            assetId={asset.id}
+                            alt={`Variant ${index + 1}`}
+                            className="w-full h-full object-cover"
+                          />
+                          <div className="absolute bottom-1 left-1 bg-gray-900/80 text-xs px-1 py-0.5 rounded text-gray-300">
+                            #{index + 1}
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 
                 {/* Reference Images */}
                 {gen.sourceAssets.length > 0 && (
@@ -230,14 +368,14 @@ export const HistoryPanel: React.FC = () => {
                           key={asset.id}
                           onClick={() => setPreviewModal({
                             open: true,
-                            imageUrl: asset.url,
+                            assetId: asset.id,
                             title: `Reference Image ${index + 1}`,
                             description: 'This reference image was used to guide the generation'
                           })}
                           className="relative aspect-square rounded border border-gray-700 hover:border-gray-600 transition-colors overflow-hidden group"
                         >
-                          <img
-                            src={asset.url}
+                          <AssetImage
+                            assetId={asset.id}
                             alt={`Reference ${index + 1}`}
                             className="w-full h-full object-cover"
                           />
@@ -256,6 +394,7 @@ export const HistoryPanel: React.FC = () => {
             );
           } else if (selectedEdit) {
             const parentGen = generations.find(g => g.id === selectedEdit.parentGenerationId);
+            const editMask = savedMasks.find(mask => mask.asset.id === selectedEdit.maskAssetId);
             return (
               <div className="space-y-3">
                 <div className="space-y-2 text-xs text-gray-500">
@@ -267,33 +406,53 @@ export const HistoryPanel: React.FC = () => {
                     <span>Type:</span>
                     <span>Image Edit</span>
                   </div>
+                  {selectedEdit.outputAssets[0] && (
+                    <div className="flex justify-between">
+                      <span>Size:</span>
+                      <span>{formatAssetSize(selectedEdit.outputAssets[0])}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span>Created:</span>
                     <span>{new Date(selectedEdit.timestamp).toLocaleTimeString()}</span>
                   </div>
+                  {formatParameters(selectedEdit.parameters).map(([label, value]) => (
+                    <div key={label} className="flex justify-between">
+                      <span>{label}:</span>
+                      <span>{value}</span>
+                    </div>
+                  ))}
+                  {formatUsage(selectedEdit).map(([label, value]) => (
+                    <div key={label} className="flex justify-between">
+                      <span>{label}:</span>
+                      <span>{value}</span>
+                    </div>
+                  ))}
                   {selectedEdit.maskAssetId && (
                     <div className="flex justify-between">
                       <span>Mask:</span>
-                      <span className="text-purple-400">Applied</span>
+                      <span className="text-purple-400 ml-2 truncate">{editMask?.name || 'Applied'}</span>
                     </div>
                   )}
                 </div>
+
+                {selectedEdit.responseText && <ResponseText text={selectedEdit.responseText} />}
                 
                 {/* Parent Generation Reference */}
-                {parentGen && (
+                {parentGen?.outputAssets[0] && (
                   <div>
                     <h5 className="text-xs font-medium text-gray-400 mb-2">Original Image</h5>
                     <button
                       onClick={() => setPreviewModal({
                         open: true,
-                        imageUrl: parentGen.outputAssets[0]?.url || '',
+                        assetId: parentGen.outputAssets[0].id,
                         title: 'Original Image',
                         description: 'The base image that was edited'
                       })}
                       className="relative aspect-square w-16 rounded border border-gray-700 hover:border-gray-600 transition-colors overflow-hidden group"
                     >
-                      <img
-                        src={parentGen.outputAssets[0]?.url}
+                      <AssetImage
+                        assetId={parentGen.outputAssets[0].id}
                         alt="Original"
                         className="w-full h-full object-cover"
                       />
@@ -311,14 +470,14 @@ export const HistoryPanel: React.FC = () => {
                     <button
                       onClick={() => setPreviewModal({
                         open: true,
-                        imageUrl: selectedEdit.maskReferenceAsset!.url,
+                        assetId: selectedEdit.maskReferenceAsset!.id,
                         title: 'Masked Reference Image',
                         description: 'This image with mask overlay was sent to the AI model to guide the edit'
                       })}
                       className="relative aspect-square w-16 rounded border border-gray-700 hover:border-gray-600 transition-colors overflow-hidden group"
                     >
-                      <img
-                        src={selectedEdit.maskReferenceAsset.url}
+                      <AssetImage
+                        assetId={selectedEdit.maskReferenceAsset.id}
                         alt="Masked reference"
                         className="w-full h-full object-cover"
                       />
@@ -331,6 +490,14 @@ export const HistoryPanel: React.FC = () => {
                     </button>
                   </div>
                 )}
+
+                {/* Edit the same area again with a different instruction */}
+                {editMask && (
+                  <Button variant="outline" size="sm" className="w-full" onClick={() => applySavedMask(editMask)}>
+                    <Layers className="h-4 w-4 mr-2" />
+                    Reuse Mask
+                  </Button>
+                )}
               </div>
             );
           } else {
@@ -349,46 +516,22 @@ export const HistoryPanel: React.FC = () => {
           variant="outline" 
           size="sm" 
           className="w-full"
-          onClick={() => {
+          onClick={async () => {
             // Find the currently displayed image (either generation or edit)
-            let imageUrl: string | null = null;
-            
-            if (selectedGenerationId) {
-              const gen = generations.find(g => g.id === selectedGenerationId);
-              imageUrl = gen?.outputAssets[0]?.url || null;
-            } else {
-              // If no generation selected, try to get the current canvas image
-              const { canvasImage } = useAppStore.getState();
-              imageUrl = canvasImage;
-            }
+            const gen = generations.find(g => g.id === selectedGenerationId);
+            const assetId = gen?.outputAssets[0]?.id || canvasAssetId;
             
-            if (imageUrl) {
-              // Handle both data URLs and regular URLs
-              if (imageUrl.startsWith('data:')) {
-                const link = document.createElement('a');
-                link.href = imageUrl;
-                link.download = `nano-banana-${Date.now()}.png`;
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
-              } else {
-                // For external URLs, we need to fetch and convert to blob
-                fetch(imageUrl)
-                  .then(response => response.blob())
-                  .then(blob => {
-                    const url = URL.createObjectURL(blob);
-                    const link = document.createElement('a');
-                    link.href = url;
-                    link.download = `nano-banana-${Date.now()}.png`;
-                    document.body.appendChild(link);
-                    link.click();
-                    document.body.removeChild(link);
-                    URL.revokeObjectURL(url);
-                  });
-              }
+            if (assetId) {
+              const blob = await AssetService.getBlob(assetId);
+              if (blob) downloadBlob(blob, `nano-banana-${Date.now()}.${getImageExtension(blob.type)}`);
+            } else if (canvasImage) {
+              // Plain URLs (e.g. uploads) need to be fetched and converted to a blob
+              const response = await fetch(canvasImage);
+              const blob = await response.blob();
+              downloadBlob(blob, `nano-banana-${Date.now()}.${getImageExtension(blob.type)}`);
             }
           }}
-          disabled={!selectedGenerationId && !useAppStore.getState().canvasImage}
+          disabled={!selectedGenerationId && !canvasImage}
         >
           <Download className="h-4 w-4 mr-2" />
           Download
@@ -399,7 +542,7 @@ export const HistoryPanel: React.FC = () => {
       <ImagePreviewModal
         open={previewModal.open}
         onOpenChange={(open) => setPreviewModal(prev => ({ ...prev, open }))}
-        imageUrl={previewModal.imageUrl}
+        assetId={previewModal.assetId}
         title={previewModal.title}
         description={previewModal.description}
       />
@@ -1,33 +1,114 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Stage, Layer, Image as KonvaImage, Line } from 'react-konva';
+import { Stage, Layer, Image as KonvaImage, Line, Rect, Ellipse, Circle } from 'react-konva';
+import type Konva from 'konva';
 import { useAppStore } from '../store/useAppStore';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useJobStore, isActiveJob } from '../store/useJobStore';
+import { getImageProvider } from '../services/providerRegistry';
+import { useCanvasImageUrl } from '../hooks/useAssetUrl';
+import { AssetService } from '../services/assetService';
+import { ImageProcessor, SelectionMode } from '../services/imageProcessing';
+import { downloadBlob, getImageExtension } from '../utils/imageUtils';
+import { formatJobProgress } from '../utils/formatUtils';
 import { Button } from './ui/Button';
-import { ZoomIn, ZoomOut, RotateCcw, Download, Eye, EyeOff, Eraser } from 'lucide-react';
+import { MaskOverlay } from './MaskOverlay';
+import { ZoomIn, ZoomOut, RotateCcw, Download, Eye, EyeOff, Eraser, Square, Paintbrush, Wand, Undo2, Redo2, Trash2, BoxSelect, Circle as CircleIcon, Lasso, Pentagon } from 'lucide-react';
+import { BrushStroke, MaskTool } from '../types';
 import { cn } from '../utils/cn';
 
+const MASK_TOOLS = [
+  { id: 'brush', icon: Paintbrush, label: 'Brush' },
+  { id: 'erase', icon: Eraser, label: 'Eraser' },
+  { id: 'wand', icon: Wand, label: 'Magic wand' },
+  { id: 'rectangle', icon: BoxSelect, label: 'Rectangle' },
+  { id: 'ellipse', icon: CircleIcon, label: 'Ellipse' },
+  { id: 'lasso', icon: Lasso, label: 'Lasso' },
+  { id: 'polygon', icon: Pentagon, label: 'Polygon (click points, Enter or double-click to close)' },
+] as const satisfies ReadonlyArray<{ id: MaskTool; icon: unknown; label: string }>;
+
+const MASK_COLOR = '#A855F7';
+
+// How close, in screen pixels, a click must be to the first point to close a polygon
+const CLOSE_POLYGON_DISTANCE = 8;
+
+// A committed stroke or shape; erasing cuts through whatever the layer already shows
+const StrokeShape: React.FC<{ stroke: BrushStroke; x: number; y: number }> = ({ stroke, x, y }) => {
+  const erase = stroke.mode === 'erase';
+  const common = {
+    x,
+    y,
+    globalCompositeOperation: erase ? 'destination-out' as const : 'source-over' as const,
+    opacity: erase ? 1 : 0.6,
+    listening: false,
+  };
+  const [x0, y0, x1, y1] = stroke.points;
+
+  if (stroke.shape === 'rectangle') {
+    return <Rect {...common} x={x + Math.min(x0, x1)} y={y + Math.min(y0, y1)} width={Math.abs(x1 - x0)} height={Math.abs(y1 - y0)} fill={MASK_COLOR} />;
+  }
+  if (stroke.shape === 'ellipse') {
+    return <Ellipse {...common} x={x + (x0 + x1) / 2} y={y + (y0 + y1) / 2} radiusX={Math.abs(x1 - x0) / 2} radiusY={Math.abs(y1 - y0) / 2} fill={MASK_COLOR} />;
+  }
+  if (stroke.shape === 'polygon') {
+    return <Line {...common} points={stroke.points} closed fill={MASK_COLOR} />;
+  }
+  return (
+    <Line
+      {...common}
+      points={stroke.points}
+      stroke={MASK_COLOR}
+      strokeWidth={stroke.brushSize}
+      tension={0.5}
+      lineCap="round"
+      lineJoin="round"
+    />
+  );
+};
+
 export const ImageCanvas: React.FC = () => {
   const {
-    canvasImage,
+    canvasAssetId,
     canvasZoom,
     setCanvasZoom,
     canvasPan,
     setCanvasPan,
     brushStrokes,
     addBrushStroke,
+    undoBrushStroke,
+    redoBrushStroke,
+    undoneBrushStrokes,
     clearBrushStrokes,
     showMasks,
     setShowMasks,
     selectedTool,
-    isGenerating,
     brushSize,
-    setBrushSize
+    setBrushSize,
+    maskTool,
+    setMaskTool,
+    wandTolerance,
+    setWandTolerance,
+    wandContiguous,
+    setWandContiguous,
+    selectedMask,
+    setSelectedMask,
+    maskPreview
   } = useAppStore();
 
+  const providerId = useSettingsStore((state) => state.providerId);
+  const cancelAllJobs = useJobStore((state) => state.cancelAllJobs);
+  const activeJobCount = useJobStore((state) => state.jobs.filter(isActiveJob).length);
+  // The most recently started request is the one worth narrating
+  const runningJob = useJobStore((state) => state.jobs.filter(job => job.status === 'running').pop());
+  const canvasImage = useCanvasImageUrl();
   const stageRef = useRef<any>(null);
   const [image, setImage] = useState<HTMLImageElement | null>(null);
   const [stageSize, setStageSize] = useState({ width: 800, height: 600 });
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentStroke, setCurrentStroke] = useState<number[]>([]);
+  // Shapes subtract when Alt is held as they are started
+  const [shapeMode, setShapeMode] = useState<BrushStroke['mode']>('paint');
+  const [polygonPoints, setPolygonPoints] = useState<number[]>([]);
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
 
   // Load image and auto-fit when canvasImage changes
   useEffect(() => {
@@ -77,67 +158,161 @@ export const ImageCanvas: React.FC = () => {
     return () => window.removeEventListener('resize', updateSize);
   }, []);
 
+  // Where the image's top-left corner sits on the stage
+  const imageOffset = {
+    x: (stageSize.width / canvasZoom - (image?.width || 0)) / 2,
+    y: (stageSize.height / canvasZoom - (image?.height || 0)) / 2
+  };
+
+  // Pointer position in image pixels, plus a copy clamped to the image so
+  // shapes can be dragged past its edges
+  const getImagePoint = (stage: Konva.Stage) => {
+    // Use Konva's getRelativePointerPosition for accurate coordinates
+    const relativePos = stage.getRelativePointerPosition() ?? { x: 0, y: 0 };
+    const x = relativePos.x - imageOffset.x;
+    const y = relativePos.y - imageOffset.y;
+    const width = image?.width || 0;
+    const height = image?.height || 0;
+    return {
+      x,
+      y,
+      inside: x >= 0 && x <= width && y >= 0 && y <= height,
+      clamped: { x: Math.min(width, Math.max(0, x)), y: Math.min(height, Math.max(0, y)) }
+    };
+  };
+
+  // An unfinished polygon belongs to the image and tool it was started with
+  useEffect(() => {
+    setPolygonPoints([]);
+    setPointer(null);
+  }, [image, maskTool, selectedTool]);
+
+  const commitPolygon = (points: number[]) => {
+    if (points.length >= 6) {
+      addBrushStroke({
+        id: `stroke-${Date.now()}`,
+        points,
+        brushSize,
+        mode: shapeMode,
+        shape: 'polygon',
+      });
+    }
+    setPolygonPoints([]);
+    setPointer(null);
+  };
+
+  useEffect(() => {
+    if (polygonPoints.length === 0) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Enter') commitPolygon(polygonPoints);
+      if (event.key === 'Escape') {
+        setPolygonPoints([]);
+        setPointer(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handlePolygonClick = (point: { x: number; y: number }, event: MouseEvent) => {
+    if (polygonPoints.length === 0) {
+      setShapeMode(event.altKey ? 'erase' : 'paint');
+      setPolygonPoints([point.x, point.y]);
+      return;
+    }
+    const closeDistance = CLOSE_POLYGON_DISTANCE / canvasZoom;
+    if (
+      polygonPoints.length >= 6 &&
+      Math.hypot(point.x - polygonPoints[0], point.y - polygonPoints[1]) <= closeDistance
+    ) {
+      commitPolygon(polygonPoints);
+      return;
+    }
+    // The clicks of a double-click land on the point just placed
+    const [lastX, lastY] = polygonPoints.slice(-2);
+    if (Math.hypot(point.x - lastX, point.y - lastY) <= closeDistance) return;
+    setPolygonPoints([...polygonPoints, point.x, point.y]);
+  };
+
   const handleMouseDown = (e: any) => {
     if (selectedTool !== 'mask' || !image) return;
     
-    setIsDrawing(true);
-    const stage = e.target.getStage();
-    const pos = stage.getPointerPosition();
-    
-    // Use Konva's getRelativePointerPosition for accurate coordinates
-    const relativePos = stage.getRelativePointerPosition();
-    
-    // Calculate image bounds on the stage
-    const imageX = (stageSize.width / canvasZoom - image.width) / 2;
-    const imageY = (stageSize.height / canvasZoom - image.height) / 2;
-    
-    // Convert to image-relative coordinates
-    const relativeX = relativePos.x - imageX;
-    const relativeY = relativePos.y - imageY;
+    const point = getImagePoint(e.target.getStage());
+    if (maskTool === 'polygon') {
+      handlePolygonClick(point.clamped, e.evt);
+      return;
+    }
     
     // Check if click is within image bounds
-    if (relativeX >= 0 && relativeX <= image.width && relativeY >= 0 && relativeY <= image.height) {
-      setCurrentStroke([relativeX, relativeY]);
+    if (!point.inside) return;
+    if (maskTool === 'wand') {
+      handleWandClick(point.x, point.y, e.evt);
+      return;
     }
+    
+    setIsDrawing(true);
+    setShapeMode(e.evt.altKey ? 'erase' : 'paint');
+    setCurrentStroke(
+      maskTool === 'rectangle' || maskTool === 'ellipse'
+        ? [point.x, point.y, point.x, point.y]
+        : [point.x, point.y]
+    );
+  };
+
+  // Shift adds to the selection and Alt takes away from it, as in most image editors
+  const handleWandClick = async (x: number, y: number, event: MouseEvent) => {
+    if (!image) return;
+    const mode: SelectionMode = event.shiftKey ? 'add' : event.altKey ? 'subtract' : 'replace';
+    const mask = await ImageProcessor.createMaskFromClick(image, x, y, {
+      tolerance: wandTolerance,
+      contiguous: wandContiguous
+    });
+    if (mask) setSelectedMask(ImageProcessor.combineSelection(selectedMask, mask, mode));
   };
 
   const handleMouseMove = (e: any) => {
-    if (!isDrawing || selectedTool !== 'mask' || !image) return;
-    
-    const stage = e.target.getStage();
-    const pos = stage.getPointerPosition();
-    
-    // Use Konva's getRelativePointerPosition for accurate coordinates
-    const relativePos = stage.getRelativePointerPosition();
-    
-    // Calculate image bounds on the stage
-    const imageX = (stageSize.width / canvasZoom - image.width) / 2;
-    const imageY = (stageSize.height / canvasZoom - image.height) / 2;
+    if (selectedTool !== 'mask' || !image) return;
     
-    // Convert to image-relative coordinates
-    const relativeX = relativePos.x - imageX;
-    const relativeY = relativePos.y - imageY;
+    const point = getImagePoint(e.target.getStage());
+    if (maskTool === 'polygon') {
+      if (polygonPoints.length > 0) setPointer(point.clamped);
+      return;
+    }
+    if (!isDrawing) return;
     
-    // Check if within image bounds
-    if (relativeX >= 0 && relativeX <= image.width && relativeY >= 0 && relativeY <= image.height) {
-      setCurrentStroke([...currentStroke, relativeX, relativeY]);
+    if (maskTool === 'rectangle' || maskTool === 'ellipse') {
+      setCurrentStroke([currentStroke[0], currentStroke[1], point.clamped.x, point.clamped.y]);
+    } else if (maskTool === 'lasso') {
+      setCurrentStroke([...currentStroke, point.clamped.x, point.clamped.y]);
+    } else if (point.inside) {
+      setCurrentStroke([...currentStroke, point.x, point.y]);
     }
   };
 
   const handleMouseUp = () => {
-    if (!isDrawing || currentStroke.length < 4) {
-      setIsDrawing(false);
-      setCurrentStroke([]);
-      return;
-    }
-    
+    if (!isDrawing) return;
     setIsDrawing(false);
-    addBrushStroke({
-      id: `stroke-${Date.now()}`,
-      points: currentStroke,
-      brushSize,
-    });
     setCurrentStroke([]);
+    
+    const id = `stroke-${Date.now()}`;
+    if (maskTool === 'rectangle' || maskTool === 'ellipse') {
+      const [x0, y0, x1, y1] = currentStroke;
+      // Ignore clicks that didn't really drag out a shape
+      if (Math.abs(x1 - x0) >= 2 && Math.abs(y1 - y0) >= 2) {
+        addBrushStroke({ id, points: currentStroke, brushSize, mode: shapeMode, shape: maskTool });
+      }
+    } else if (maskTool === 'lasso') {
+      if (currentStroke.length >= 6) {
+        addBrushStroke({ id, points: currentStroke, brushSize, mode: shapeMode, shape: 'polygon' });
+      }
+    } else if (currentStroke.length >= 4) {
+      addBrushStroke({
+        id,
+        points: currentStroke,
+        brushSize,
+        mode: maskTool === 'erase' ? 'erase' : 'paint',
+      });
+    }
   };
 
   const handleZoom = (delta: number) => {
@@ -159,16 +334,13 @@ export const ImageCanvas: React.FC = () => {
     }
   };
 
-  const handleDownload = () => {
-    if (canvasImage) {
-      if (canvasImage.startsWith('data:')) {
-        const link = document.createElement('a');
-        link.href = canvasImage;
-        link.download = `nano-banana-${Date.now()}.png`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-      }
+  const handleDownload = async () => {
+    if (canvasAssetId) {
+      const blob = await AssetService.getBlob(canvasAssetId);
+      if (blob) downloadBlob(blob, `nano-banana-${Date.now()}.${getImageExtension(blob.type)}`);
+    } else if (canvasImage) {
+      const blob = await (await fetch(canvasImage)).blob();
+      downloadBlob(blob, `nano-banana-${Date.now()}.${getImageExtension(blob.type)}`);
     }
   };
 
@@ -197,25 +369,93 @@ export const ImageCanvas: React.FC = () => {
           <div className="flex items-center space-x-2">
             {selectedTool === 'mask' && (
               <>
-                <div className="flex items-center space-x-2 mr-2">
-                  <span className="text-xs text-gray-400">Brush:</span>
-                  <input
-                    type="range"
-                    min="5"
-                    max="50"
-                    value={brushSize}
-                    onChange={(e) => setBrushSize(parseInt(e.target.value))}
-                    className="w-16 h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer slider"
-                  />
-                  <span className="text-xs text-gray-400 w-6">{brushSize}</span>
+                <div className="flex items-center">
+                  {MASK_TOOLS.map((tool, index) => (
+                    <Button
+                      key={tool.id}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setMaskTool(tool.id)}
+                      className={cn(
+                        'px-2',
+                        index > 0 && 'rounded-l-none border-l-0',
+                        index < MASK_TOOLS.length - 1 && 'rounded-r-none',
+                        maskTool === tool.id && 'bg-yellow-400/10 border-yellow-400/50'
+                      )}
+                      title={tool.id === 'wand' || tool.id === 'brush' || tool.id === 'erase'
+                        ? tool.label
+                        : `${tool.label} (Alt subtracts)`}
+                    >
+                      <tool.icon className="h-4 w-4" />
+                    </Button>
+                  ))}
                 </div>
+                {(maskTool === 'brush' || maskTool === 'erase') && (
+                  <div className="flex items-center space-x-2 mr-2">
+                    <span className="text-xs text-gray-400">Brush:</span>
+                    <input
+                      type="range"
+                      min="5"
+                      max="50"
+                      value={brushSize}
+                      onChange={(e) => setBrushSize(parseInt(e.target.value))}
+                      className="w-16 h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer slider"
+                    />
+                    <span className="text-xs text-gray-400 w-6">{brushSize}</span>
+                  </div>
+                )}
+                {maskTool === 'wand' && (
+                  <div className="flex items-center space-x-2 mr-2">
+                    <span className="text-xs text-gray-400">Tolerance:</span>
+                    <input
+                      type="range"
+                      min="0"
+                      max="128"
+                      value={wandTolerance}
+                      onChange={(e) => setWandTolerance(parseInt(e.target.value))}
+                      className="w-16 h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer slider"
+                    />
+                    <span className="text-xs text-gray-400 w-6">{wandTolerance}</span>
+                    <label className="flex items-center space-x-1 text-xs text-gray-400 cursor-pointer" title="Off selects the colour everywhere in the image">
+                      <input
+                        type="checkbox"
+                        checked={wandContiguous}
+                        onChange={(e) => setWandContiguous(e.target.checked)}
+                        className="accent-yellow-400"
+                      />
+                      <span className="hidden sm:inline">Contiguous</span>
+                    </label>
+                  </div>
+                )}
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={clearBrushStrokes}
+                  onClick={undoBrushStroke}
                   disabled={brushStrokes.length === 0}
+                  title="Undo stroke (Ctrl+Z)"
                 >
-                  <Eraser className="h-4 w-4" />
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={redoBrushStroke}
+                  disabled={undoneBrushStrokes.length === 0}
+                  title="Redo stroke (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    clearBrushStrokes();
+                    setSelectedMask(null);
+                  }}
+                  disabled={brushStrokes.length === 0 && !selectedMask}
+                  title="Clear mask"
+                >
+                  <Trash2 className="h-4 w-4" />
                 </Button>
               </>
             )}
@@ -245,7 +485,7 @@ export const ImageCanvas: React.FC = () => {
         id="canvas-container" 
         className="flex-1 relative overflow-hidden bg-gray-800"
       >
-        {!image && !isGenerating && (
+        {!image && activeJobCount === 0 && (
           <div className="absolute inset-0 flex items-center justify-center">
             <div className="text-center">
               <div className="text-6xl mb-4">🍌</div>
@@ -262,15 +502,38 @@ export const ImageCanvas: React.FC = () => {
           </div>
         )}
 
-        {isGenerating && (
-          <div className="absolute inset-0 flex items-center justify-center bg-gray-900/50">
-            <div className="text-center">
+        {!image && activeJobCount > 0 && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center bg-gray-900/50">
+            <div className="flex flex-col items-center text-center">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-yellow-400 mb-4" />
-              <p className="text-gray-300">Creating your image...</p>
+              <p className="text-gray-300">{formatJobProgress(runningJob?.progress)}</p>
+              {runningJob?.progress?.text && (
+                <p className="mt-2 max-w-md text-sm text-gray-400 whitespace-pre-wrap line-clamp-4">
+                  {runningJob.progress.text}
+                </p>
+              )}
+              <Button variant="outline" size="sm" className="mt-4" onClick={cancelAllJobs}>
+                <Square className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
             </div>
           </div>
         )}
 
+        {/* Keep the current image usable while further requests run */}
+        {image && activeJobCount > 0 && (
+          <div className="absolute top-3 left-3 z-10 max-w-xs px-3 py-1.5 bg-gray-900/90 border border-gray-700 rounded-lg text-xs text-gray-300">
+            <div className="flex items-center">
+              <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-yellow-400 mr-2 flex-shrink-0" />
+              {activeJobCount} request{activeJobCount !== 1 ? 's' : ''} in progress
+              {runningJob?.progress && ` · ${formatJobProgress(runningJob.progress)}`}
+            </div>
+            {runningJob?.progress?.text && (
+              <p className="mt-1 text-gray-400 whitespace-pre-wrap line-clamp-2">{runningJob.progress.text}</p>
+            )}
+          </div>
+        )}
+
         <Stage
           ref={stageRef}
           width={stageSize.width}
@@ -289,6 +552,7 @@ export const ImageCanvas: React.FC = () => {
           onMouseDown={handleMouseDown}
           onMousemove={handleMouseMove}
           onMouseup={handleMouseUp}
+          onDblClick={() => maskTool === 'polygon' && commitPolygon(polygonPoints)}
           style={{ 
             cursor: selectedTool === 'mask' ? 'crosshair' : 'default' 
           }}
@@ -301,39 +565,90 @@ export const ImageCanvas: React.FC = () => {
                 y={(stageSize.height / canvasZoom - image.height) / 2}
               />
             )}
+          </Layer>
+
+          {/* Masks get their own layer so erase strokes cut through them but not the image */}
+          <Layer>
+            {image && <MaskOverlay x={imageOffset.x} y={imageOffset.y} />}
             
-            {/* Brush Strokes */}
-            {showMasks && brushStrokes.map((stroke) => (
-              <Line
-                key={stroke.id}
-                points={stroke.points}
-                stroke="#A855F7"
-                strokeWidth={stroke.brushSize}
-                tension={0.5}
-                lineCap="round"
-                lineJoin="round"
-                globalCompositeOperation="source-over"
-                opacity={0.6}
-                x={(stageSize.width / canvasZoom - (image?.width || 0)) / 2}
-                y={(stageSize.height / canvasZoom - (image?.height || 0)) / 2}
-              />
+            {/* Brush strokes and shapes; a refinement preview already includes them */}
+            {showMasks && !maskPreview && brushStrokes.map((stroke) => (
+              <StrokeShape key={stroke.id} stroke={stroke} x={imageOffset.x} y={imageOffset.y} />
             ))}
             
             {/* Current stroke being drawn */}
-            {isDrawing && currentStroke.length > 2 && (
+            {isDrawing && (maskTool === 'brush' || maskTool === 'erase') && currentStroke.length > 2 && (
               <Line
                 points={currentStroke}
-                stroke="#A855F7"
+                stroke={maskTool === 'erase' ? '#F3F4F6' : MASK_COLOR}
                 strokeWidth={brushSize}
                 tension={0.5}
                 lineCap="round"
                 lineJoin="round"
-                globalCompositeOperation="source-over"
                 opacity={0.6}
-                x={(stageSize.width / canvasZoom - (image?.width || 0)) / 2}
-                y={(stageSize.height / canvasZoom - (image?.height || 0)) / 2}
+                x={imageOffset.x}
+                y={imageOffset.y}
+              />
+            )}
+            
+            {/* Outline of the shape being drawn */}
+            {isDrawing && maskTool === 'rectangle' && (
+              <Rect
+                x={imageOffset.x + Math.min(currentStroke[0], currentStroke[2])}
+                y={imageOffset.y + Math.min(currentStroke[1], currentStroke[3])}
+                width={Math.abs(currentStroke[2] - currentStroke[0])}
+                height={Math.abs(currentStroke[3] - currentStroke[1])}
+                stroke="#FACC15"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                dash={[6, 4]}
+              />
+            )}
+            {isDrawing && maskTool === 'ellipse' && (
+              <Ellipse
+                x={imageOffset.x + (currentStroke[0] + currentStroke[2]) / 2}
+                y={imageOffset.y + (currentStroke[1] + currentStroke[3]) / 2}
+                radiusX={Math.abs(currentStroke[2] - currentStroke[0]) / 2}
+                radiusY={Math.abs(currentStroke[3] - currentStroke[1]) / 2}
+                stroke="#FACC15"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                dash={[6, 4]}
+              />
+            )}
+            {isDrawing && maskTool === 'lasso' && currentStroke.length > 2 && (
+              <Line
+                points={currentStroke}
+                closed
+                stroke="#FACC15"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                dash={[6, 4]}
+                x={imageOffset.x}
+                y={imageOffset.y}
               />
             )}
+            {polygonPoints.length > 0 && (
+              <>
+                <Line
+                  points={pointer ? [...polygonPoints, pointer.x, pointer.y] : polygonPoints}
+                  stroke="#FACC15"
+                  strokeWidth={1}
+                  strokeScaleEnabled={false}
+                  dash={[6, 4]}
+                  x={imageOffset.x}
+                  y={imageOffset.y}
+                />
+                <Circle
+                  x={imageOffset.x + polygonPoints[0]}
+                  y={imageOffset.y + polygonPoints[1]}
+                  radius={CLOSE_POLYGON_DISTANCE / canvasZoom}
+                  stroke="#FACC15"
+                  strokeWidth={1}
+                  strokeScaleEnabled={false}
+                />
+              </>
+            )}
           </Layer>
         </Stage>
       </div>
@@ -345,6 +660,11 @@ export const ImageCanvas: React.FC = () => {
             {brushStrokes.length > 0 && (
               <span className="text-yellow-400">{brushStrokes.length} brush stroke{brushStrokes.length !== 1 ? 's' : ''}</span>
             )}
+            {selectedMask && (
+              <span className="text-purple-400">
+                Selection {selectedMask.bounds.width}×{selectedMask.bounds.height}
+              </span>
+            )}
           </div>
           
           <div className="flex items-center space-x-2">
@@ -361,7 +681,7 @@ export const ImageCanvas: React.FC = () => {
             </span>
             <span className="text-gray-600 hidden md:inline">•</span>
             <span className="text-yellow-400 hidden md:inline">⚡</span>
-            <span className="hidden md:inline">Powered by Gemini 2.5 Flash Image</span>
+            <span className="hidden md:inline">Powered by {getImageProvider(providerId).name}</span>
           </div>
         </div>
       </div>
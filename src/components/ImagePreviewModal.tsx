@@ -2,11 +2,12 @@ import React from 'react';
 import * as Dialog from '@radix-ui/react-dialog';
 import { X } from 'lucide-react';
 import { Button } from './ui/Button';
+import { AssetImage } from './AssetImage';
 
 interface ImagePreviewModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  imageUrl: string;
+  assetId: string;
   title: string;
   description?: string;
 }
@@ -14,7 +15,7 @@ interface ImagePreviewModalProps {
 export const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ 
   open, 
   onOpenChange, 
-  imageUrl, 
+  assetId, 
   title, 
   description 
 }) => {
@@ -40,8 +41,8 @@ export const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({
             )}
             
             <div className="bg-gray-800 rounded-lg p-4">
-              <img
-                src={imageUrl}
+              <AssetImage
+                assetId={assetId}
                 alt={title}
                 className="w-full h-auto rounded-lg border border-gray-700"
               />
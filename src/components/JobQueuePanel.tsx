@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, Clock, CheckCircle, XCircle, Ban, Square } from 'lucide-react';
+import { Button } from './ui/Button';
+import { useJobStore, isActiveJob, Job, JobType, MAX_CONCURRENT_JOBS } from '../store/useJobStore';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { formatJobProgress } from '../utils/formatUtils';
+import { cn } from '../utils/cn';
+
+interface JobQueuePanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const JOB_TYPE_LABELS: Record<JobType, string> = {
+  generate: 'Generate',
+  edit: 'Edit',
+  select: 'Select',
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const describeJob = (job: Job, now: number, queuePosition: number) => {
+  switch (job.status) {
+    case 'queued':
+      return `Waiting · #${queuePosition} in queue`;
+    case 'running':
+      return `Running · ${formatDuration(now - (job.startedAt ?? now))}${job.progress ? ` · ${formatJobProgress(job.progress)}` : ''}`;
+    case 'succeeded':
+      return `Done in ${formatDuration((job.finishedAt ?? now) - (job.startedAt ?? job.createdAt))}`;
+    case 'failed':
+      return job.error ? `Failed · ${job.error}` : 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+};
+
+const StatusIcon: React.FC<{ status: Job['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'queued':
+      return <Clock className="h-4 w-4 text-gray-400" />;
+    case 'running':
+      return <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-yellow-400" />;
+    case 'succeeded':
+      return <CheckCircle className="h-4 w-4 text-green-400" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-400" />;
+    case 'cancelled':
+      return <Ban className="h-4 w-4 text-gray-500" />;
+  }
+};
+
+export const JobQueuePanel: React.FC<JobQueuePanelProps> = ({ open, onOpenChange }) => {
+  const { jobs, cancelJob, cancelAllJobs, clearFinishedJobs } = useJobStore();
+  const { maxConcurrentJobs, setMaxConcurrentJobs } = useSettingsStore();
+  const [now, setNow] = useState(Date.now());
+
+  const hasRunningJobs = jobs.some(job => job.status === 'running');
+  const hasActiveJobs = jobs.some(isActiveJob);
+  const hasFinishedJobs = jobs.some(job => !isActiveJob(job));
+
+  // Tick elapsed times while something is running
+  useEffect(() => {
+    if (!open || !hasRunningJobs) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [open, hasRunningJobs]);
+
+  const queuedIds = jobs.filter(job => job.status === 'queued').map(job => job.id);
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 border border-gray-700 rounded-lg p-6 w-full max-w-lg max-h-[90vh] flex flex-col z-50">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-lg font-semibold text-gray-100">
+              Request Queue
+            </Dialog.Title>
+            <Dialog.Close asChild>
+              <Button variant="ghost" size="icon" className="h-6 w-6">
+                <X className="h-4 w-4" />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className="flex items-center justify-between p-4 mb-4 bg-gray-950 rounded-lg border border-gray-700">
+            <div>
+              <h4 className="text-xs font-medium text-gray-300">Requests at once</h4>
+              <p className="text-xs text-gray-500 mt-1">
+                Further requests wait until a running one finishes
+              </p>
+            </div>
+            <select
+              value={maxConcurrentJobs}
+              onChange={(e) => setMaxConcurrentJobs(Number(e.target.value))}
+              className="h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+            >
+              {Array.from({ length: MAX_CONCURRENT_JOBS }, (_, i) => i + 1).map((count) => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex-1 overflow-y-auto min-h-0 space-y-1">
+            {jobs.length === 0 ? (
+              <p className="text-sm text-gray-500 py-8 text-center">No requests yet</p>
+            ) : (
+              [...jobs].reverse().map((job) => (
+                <div
+                  key={job.id}
+                  className={cn(
+                    'flex items-center p-2 rounded border border-gray-800 bg-gray-950',
+                    !isActiveJob(job) && 'opacity-70'
+                  )}
+                >
+                  <div className="w-4 mr-3 flex-shrink-0">
+                    <StatusIcon status={job.status} />
+                  </div>
+                  <div className="flex-1 min-w-0 mr-2">
+                    <div className="text-sm text-gray-200 truncate" title={job.prompt}>
+                      <span className="text-xs text-gray-500 mr-2">{JOB_TYPE_LABELS[job.type]}</span>
+                      {job.prompt}
+                    </div>
+                    <div className={cn('text-xs truncate', job.status === 'failed' ? 'text-red-300' : 'text-gray-500')}>
+                      {describeJob(job, now, queuedIds.indexOf(job.id) + 1)}
+                    </div>
+                  </div>
+                  {isActiveJob(job) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 flex-shrink-0"
+                      onClick={() => cancelJob(job.id)}
+                      title="Cancel"
+                    >
+                      <Square className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="outline" size="sm" disabled={!hasFinishedJobs} onClick={clearFinishedJobs}>
+              Clear finished
+            </Button>
+            <Button variant="outline" size="sm" disabled={!hasActiveJobs} onClick={cancelAllJobs}>
+              Cancel all
+            </Button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
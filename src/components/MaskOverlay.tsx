@@ -1,36 +1,65 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { Group, Image as KonvaImage, Rect, Label, Tag, Text } from 'react-konva';
 import { useAppStore } from '../store/useAppStore';
+import { ImageProcessor } from '../services/imageProcessing';
+import { SegmentationMask } from '../types';
+import { getMaskColor } from '../utils/segmentationUtils';
 
-export const MaskOverlay: React.FC = () => {
-  const { selectedMask, showMasks } = useAppStore();
+interface MaskOverlayProps {
+  // Where the image's top-left corner sits on the stage
+  x: number;
+  y: number;
+}
 
-  if (!showMasks || !selectedMask) return null;
+const SELECTION_COLOR = '#A855F7';
+
+const MaskShape: React.FC<{ mask: SegmentationMask; color: string; dashed?: boolean; showLabel?: boolean }> = ({
+  mask,
+  color,
+  dashed,
+  showLabel
+}) => {
+  const fill = useMemo(() => ImageProcessor.maskToCanvas(mask, color), [mask, color]);
+  const { bounds } = mask;
 
   return (
-    <div className="absolute inset-0 pointer-events-none">
-      {/* Marching ants effect */}
-      <div 
-        className="absolute border-2 border-yellow-400 animate-pulse"
-        style={{
-          left: selectedMask.bounds.x,
-          top: selectedMask.bounds.y,
-          width: selectedMask.bounds.width,
-          height: selectedMask.bounds.height,
-          borderStyle: 'dashed',
-          animationDuration: '1s'
-        }}
-      />
-      
-      {/* Mask overlay */}
-      <div
-        className="absolute bg-yellow-400/20"
-        style={{
-          left: selectedMask.bounds.x,
-          top: selectedMask.bounds.y,
-          width: selectedMask.bounds.width,
-          height: selectedMask.bounds.height,
-        }}
+    <>
+      <KonvaImage image={fill} opacity={0.4} listening={false} />
+      <Rect
+        x={bounds.x}
+        y={bounds.y}
+        width={bounds.width}
+        height={bounds.height}
+        stroke={dashed ? '#FACC15' : color}
+        strokeWidth={2}
+        strokeScaleEnabled={false}
+        dash={dashed ? [6, 4] : undefined}
+        listening={false}
       />
-    </div>
+      {showLabel && mask.label && (
+        <Label x={bounds.x} y={bounds.y} listening={false}>
+          <Tag fill={color} />
+          <Text text={mask.label} fontSize={14} padding={4} fill="#111827" />
+        </Label>
+      )}
+    </>
+  );
+};
+
+// Candidate masks from text selection, each in its own colour with its label,
+// and the accepted selection (or its refinement preview) with a dashed outline
+export const MaskOverlay: React.FC<MaskOverlayProps> = ({ x, y }) => {
+  const { maskCandidates, selectedMask, maskPreview, showMasks } = useAppStore();
+  const selection = maskPreview ?? selectedMask;
+
+  if (!showMasks || (!selection && maskCandidates.length === 0)) return null;
+
+  return (
+    <Group x={x} y={y} listening={false}>
+      {selection && <MaskShape mask={selection} color={SELECTION_COLOR} dashed />}
+      {maskCandidates.map((mask, index) => (
+        <MaskShape key={mask.id} mask={mask} color={getMaskColor(index)} showLabel />
+      ))}
+    </Group>
   );
-};
\ No newline at end of file
+};
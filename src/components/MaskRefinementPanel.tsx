@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { FlipHorizontal2, PaintBucket } from 'lucide-react';
+import { Button } from './ui/Button';
+import { useAppStore } from '../store/useAppStore';
+import { useNotificationStore } from '../store/useNotificationStore';
+import { ImageProcessor, MaskRefinement } from '../services/imageProcessing';
+import { loadSelectionMask } from '../hooks/useImageGeneration';
+import { SegmentationMask } from '../types';
+
+// Refinement runs on the full-size mask, so give the sliders a moment to settle
+const PREVIEW_DELAY_MS = 150;
+
+const RefinementSlider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, onChange }) => (
+  <div>
+    <div className="flex items-center justify-between text-xs text-gray-400 mb-1">
+      <span>{label}</span>
+      <span>{value}px</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer slider"
+    />
+  </div>
+);
+
+// Grow, shrink, smooth and feather the selection with a live preview on the
+// canvas; invert and fill holes apply straight away. Strokes drawn over the
+// selection are refined with it and become part of it once a change is applied.
+export const MaskRefinementPanel: React.FC = () => {
+  const {
+    selectedMask,
+    brushStrokes,
+    canvasAssetId,
+    canvasImage,
+    setSelectedMask,
+    clearBrushStrokes,
+    setMaskPreview
+  } = useAppStore();
+  const notify = useNotificationStore((state) => state.notify);
+  const [mask, setMask] = useState<SegmentationMask | null>(selectedMask);
+  const [refinement, setRefinement] = useState<MaskRefinement>({ grow: 0, smooth: 0, feather: 0 });
+
+  useEffect(() => {
+    if (brushStrokes.length === 0) {
+      setMask(selectedMask);
+      return;
+    }
+    let cancelled = false;
+    loadSelectionMask()
+      .then(combined => {
+        if (!cancelled) setMask(combined);
+      })
+      .catch(error => console.error('Failed to combine the selection with its strokes:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedMask, brushStrokes, canvasAssetId, canvasImage]);
+
+  // Each new selection starts from its own feather with nothing else pending
+  useEffect(() => {
+    setRefinement({ grow: 0, smooth: 0, feather: mask?.feather ?? 0 });
+  }, [mask]);
+
+  const isPending = !!mask && (
+    refinement.grow !== 0 || refinement.smooth !== 0 || refinement.feather !== mask.feather
+  );
+
+  useEffect(() => {
+    if (!mask || !isPending) {
+      setMaskPreview(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      setMaskPreview(ImageProcessor.refineMask(mask, refinement));
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [mask, refinement, isPending, setMaskPreview]);
+
+  // The preview belongs to this panel
+  useEffect(() => () => setMaskPreview(null), [setMaskPreview]);
+
+  if (!mask) return null;
+
+  // A change that would select nothing leaves the selection as it was
+  const applyChange = (refined: SegmentationMask | null) => {
+    if (refined) {
+      setSelectedMask(refined);
+      clearBrushStrokes();
+    } else {
+      notify({
+        type: 'warning',
+        title: 'Nothing would be left selected',
+        message: 'The selection was kept as it was.'
+      });
+    }
+  };
+
+  const update = (changes: Partial<MaskRefinement>) => setRefinement(current => ({ ...current, ...changes }));
+
+  return (
+    <div className="mt-3 p-3 bg-gray-900 rounded-lg border border-gray-700 space-y-3">
+      <h4 className="text-xs font-medium text-gray-300">Refine Selection</h4>
+      <RefinementSlider label="Grow / shrink" value={refinement.grow} min={-30} max={30} onChange={(grow) => update({ grow })} />
+      <RefinementSlider label="Smooth" value={refinement.smooth} min={0} max={10} onChange={(smooth) => update({ smooth })} />
+      <RefinementSlider label="Feather" value={refinement.feather} min={0} max={40} onChange={(feather) => update({ feather })} />
+
+      <div className="flex space-x-2">
+        <Button
+          size="sm"
+          className="flex-1"
+          disabled={!isPending}
+          onClick={() => applyChange(ImageProcessor.refineMask(mask, refinement))}
+        >
+          Apply
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!isPending}
+          onClick={() => setRefinement({ grow: 0, smooth: 0, feather: mask.feather })}
+        >
+          Reset
+        </Button>
+      </div>
+
+      <div className="flex space-x-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => applyChange(ImageProcessor.invertMask(mask))}>
+          <FlipHorizontal2 className="h-4 w-4 mr-1" />
+          Invert
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => applyChange(ImageProcessor.fillHoles(mask))}>
+          <PaintBucket className="h-4 w-4 mr-1" />
+          Fill Holes
+        </Button>
+      </div>
+    </div>
+  );
+};
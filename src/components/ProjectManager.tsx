@@ -0,0 +1,318 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, Plus, Copy, Trash2, Pencil, Check, FolderOpen, Download, Upload, AlertTriangle } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { useAppStore } from '../store/useAppStore';
+import { CacheService, MigrationFailure } from '../services/cacheService';
+import { ProjectBundleService } from '../services/projectBundleService';
+import { tabSyncService } from '../services/tabSyncService';
+import { downloadBlob } from '../utils/imageUtils';
+import { Project } from '../types';
+import { getLatestOutput, duplicateProject } from '../utils/projectUtils';
+import { AssetImage } from './AssetImage';
+import { cn } from '../utils/cn';
+
+interface ProjectManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ProjectManager: React.FC<ProjectManagerProps> = ({ open, onOpenChange }) => {
+  const { currentProject, createProject, switchProject, renameProject } = useAppStore();
+
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [bundleError, setBundleError] = useState<string | null>(null);
+  const [migrationFailures, setMigrationFailures] = useState<MigrationFailure[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const loadProjects = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setProjects(await CacheService.getAllProjects());
+      setMigrationFailures(CacheService.getMigrationFailures());
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadProjects();
+    } else {
+      setRenamingId(null);
+      setConfirmDeleteId(null);
+      setBundleError(null);
+    }
+  }, [open, loadProjects]);
+
+  // The open project may have unsaved changes, so prefer the in-memory copy
+  const allProjects = [
+    ...(currentProject ? [currentProject] : []),
+    ...projects.filter(p => p.id !== currentProject?.id)
+  ].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const handleNew = () => {
+    createProject();
+    onOpenChange(false);
+  };
+
+  const handleOpen = (project: Project) => {
+    if (project.id !== currentProject?.id) {
+      switchProject(project);
+    }
+    onOpenChange(false);
+  };
+
+  const startRename = (project: Project) => {
+    setRenamingId(project.id);
+    setRenameValue(project.title);
+    setConfirmDeleteId(null);
+  };
+
+  const handleRename = async (project: Project) => {
+    const title = renameValue.trim();
+    setRenamingId(null);
+    if (!title || title === project.title) return;
+
+    if (project.id === currentProject?.id) {
+      renameProject(title);
+    } else {
+      await CacheService.saveProject({ ...project, title, updatedAt: Date.now() });
+      await loadProjects();
+    }
+  };
+
+  const handleDuplicate = async (project: Project) => {
+    await CacheService.saveProject(duplicateProject(project));
+    await loadProjects();
+  };
+
+  const handleExport = async (project: Project) => {
+    setBundleError(null);
+    try {
+      const bundle = await ProjectBundleService.exportProject(project);
+      const filename = project.title.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'project';
+      downloadBlob(bundle, `${filename}.nanobanana.zip`);
+    } catch (error) {
+      console.error('Failed to export project:', error);
+      setBundleError(error instanceof Error ? error.message : 'Failed to export project');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setBundleError(null);
+    try {
+      await ProjectBundleService.importBundle(file);
+      await loadProjects();
+    } catch (error) {
+      console.error('Failed to import project:', error);
+      setBundleError(error instanceof Error ? error.message : 'Failed to import project');
+    }
+  };
+
+  const handleDownloadRaw = async (failure: MigrationFailure) => {
+    const raw = await CacheService.exportRawRecord(failure.key);
+    if (raw) {
+      downloadBlob(raw, `${failure.key}${raw.type === 'application/json' ? '.json' : ''}`);
+    }
+  };
+
+  const handleDelete = async (project: Project) => {
+    setConfirmDeleteId(null);
+    // Deleted first, so the autosave on switching away can't write it back
+    await CacheService.deleteProject(project.id);
+    tabSyncService.publishDeletion(project.id);
+    if (project.id === currentProject?.id) {
+      switchProject(null);
+    }
+    await loadProjects();
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 border border-gray-700 rounded-lg p-6 w-full max-w-3xl max-h-[90vh] flex flex-col z-50">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-lg font-semibold text-gray-100">
+              Projects
+            </Dialog.Title>
+            <div className="flex items-center space-x-2">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                onChange={handleImport}
+                className="hidden"
+              />
+              <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-1" />
+                Import
+              </Button>
+              <Button size="sm" onClick={handleNew}>
+                <Plus className="h-4 w-4 mr-1" />
+                New Project
+              </Button>
+              <Dialog.Close asChild>
+                <Button variant="ghost" size="icon" className="h-6 w-6">
+                  <X className="h-4 w-4" />
+                </Button>
+              </Dialog.Close>
+            </div>
+          </div>
+
+          {bundleError && (
+            <div className="mb-3 p-3 bg-red-900/20 border border-red-500/30 rounded-lg text-xs text-red-300">
+              {bundleError}
+            </div>
+          )}
+
+          {migrationFailures.length > 0 && (
+            <div className="mb-3 p-3 bg-yellow-900/20 border border-yellow-500/30 rounded-lg">
+              <div className="flex items-center text-xs font-medium text-yellow-300 mb-2">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                {migrationFailures.length} saved record{migrationFailures.length !== 1 ? 's' : ''} could not be upgraded and {migrationFailures.length !== 1 ? 'were' : 'was'} left untouched
+              </div>
+              <div className="space-y-1 max-h-32 overflow-y-auto">
+                {migrationFailures.map((failure) => (
+                  <div key={failure.key} className="flex items-center justify-between text-xs text-gray-400">
+                    <span className="truncate mr-2" title={failure.error}>
+                      <span className="capitalize">{failure.type}</span> (schema {failure.fromVersion}): {failure.error}
+                    </span>
+                    <Button variant="ghost" size="sm" className="h-6 flex-shrink-0" onClick={() => handleDownloadRaw(failure)}>
+                      <Download className="h-3 w-3 mr-1" />
+                      Raw data
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto min-h-0 space-y-2">
+            {allProjects.length === 0 ? (
+              <div className="text-center py-12">
+                <FolderOpen className="h-8 w-8 text-gray-600 mx-auto mb-2" />
+                <p className="text-sm text-gray-500">
+                  {isLoading ? 'Loading projects...' : 'No projects yet'}
+                </p>
+              </div>
+            ) : allProjects.map((project) => {
+              const thumbnailId = getLatestOutput(project)?.assetId;
+              const isCurrent = project.id === currentProject?.id;
+
+              return (
+                <div
+                  key={project.id}
+                  className={cn(
+                    'flex items-center p-3 rounded-lg border transition-colors',
+                    isCurrent
+                      ? 'bg-yellow-400/5 border-yellow-400/50'
+                      : 'bg-gray-950 border-gray-700 hover:border-gray-600'
+                  )}
+                >
+                  <button
+                    onClick={() => handleOpen(project)}
+                    className="w-16 h-16 flex-shrink-0 rounded border border-gray-700 overflow-hidden bg-gray-800 flex items-center justify-center"
+                    title="Open project"
+                  >
+                    {thumbnailId ? (
+                      <AssetImage assetId={thumbnailId} alt={project.title} className="w-full h-full object-cover" />
+                    ) : (
+                      <div className="text-2xl">🍌</div>
+                    )}
+                  </button>
+
+                  <div className="flex-1 min-w-0 mx-4">
+                    {renamingId === project.id ? (
+                      <form
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          handleRename(project);
+                        }}
+                        className="flex items-center space-x-2"
+                      >
+                        <Input
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Escape' && setRenamingId(null)}
+                          className="h-8"
+                          autoFocus
+                        />
+                        <Button type="submit" variant="ghost" size="icon" className="h-8 w-8">
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      </form>
+                    ) : (
+                      <button
+                        onClick={() => handleOpen(project)}
+                        className="text-sm font-medium text-gray-100 hover:text-yellow-400 truncate block max-w-full text-left transition-colors"
+                      >
+                        {project.title}
+                        {isCurrent && <span className="ml-2 text-xs text-yellow-400">Open</span>}
+                      </button>
+                    )}
+                    <div className="mt-1 text-xs text-gray-500 space-x-3">
+                      <span>{project.generations.length} generation{project.generations.length !== 1 ? 's' : ''}</span>
+                      <span>{project.edits.length} edit{project.edits.length !== 1 ? 's' : ''}</span>
+                    </div>
+                    <div className="mt-1 text-xs text-gray-600">
+                      Updated {new Date(project.updatedAt).toLocaleString()} · Created {new Date(project.createdAt).toLocaleDateString()}
+                    </div>
+                  </div>
+
+                  {confirmDeleteId === project.id ? (
+                    <div className="flex items-center space-x-2">
+                      <span className="text-xs text-gray-300">Delete?</span>
+                      <Button variant="destructive" size="sm" onClick={() => handleDelete(project)}>
+                        Yes
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setConfirmDeleteId(null)}>
+                        No
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-1">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startRename(project)} title="Rename">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDuplicate(project)} title="Duplicate">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleExport(project)} title="Export bundle">
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 hover:text-red-400"
+                        onClick={() => {
+                          setConfirmDeleteId(project.id);
+                          setRenamingId(null);
+                        }}
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
@@ -1,11 +1,20 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Textarea } from './ui/Textarea';
 import { Button } from './ui/Button';
 import { useAppStore } from '../store/useAppStore';
-import { useImageGeneration, useImageEditing } from '../hooks/useImageGeneration';
-import { Upload, Wand2, Edit3, MousePointer, HelpCircle, Menu, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
-import { blobToBase64 } from '../utils/imageUtils';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useJobStore, isActiveJob } from '../store/useJobStore';
+import { PROVIDER_OPTIONS, ProviderId } from '../services/providerRegistry';
+import { MAX_SEED, clampSeed } from '../services/imageProvider';
+import { useImageGeneration, useImageEditing, useTextSelection, useSavedMasks } from '../hooks/useImageGeneration';
+import { useBudgetStatus } from '../hooks/useBudgetStatus';
+import { Upload, Wand2, Edit3, MousePointer, HelpCircle, ChevronDown, ChevronRight, RotateCcw, Square, AlertTriangle, Search, X, Save } from 'lucide-react';
+import { blobToBase64, ASPECT_RATIO_SIZES } from '../utils/imageUtils';
+import { AspectRatio } from '../types';
 import { PromptHints } from './PromptHints';
+import { MaskRefinementPanel } from './MaskRefinementPanel';
+import { ImageProcessor } from '../services/imageProcessing';
+import { getMaskColor } from '../utils/segmentationUtils';
 import { cn } from '../utils/cn';
 
 export const PromptComposer: React.FC = () => {
@@ -18,7 +27,19 @@ export const PromptComposer: React.FC = () => {
     setTemperature,
     seed,
     setSeed,
-    isGenerating,
+    topP,
+    setTopP,
+    topK,
+    setTopK,
+    candidateCount,
+    setCandidateCount,
+    variantCount,
+    setVariantCount,
+    responseModalities,
+    setResponseModalities,
+    resetGenerationSettings,
+    aspectRatio,
+    setAspectRatio,
     uploadedImages,
     addUploadedImage,
     removeUploadedImage,
@@ -28,21 +49,37 @@ export const PromptComposer: React.FC = () => {
     removeEditReferenceImage,
     clearEditReferenceImages,
     canvasImage,
+    canvasAssetId,
     setCanvasImage,
     showPromptPanel,
     setShowPromptPanel,
     clearBrushStrokes,
+    maskCandidates,
+    setMaskCandidates,
+    selectedMask,
+    setSelectedMask,
+    brushStrokes,
+    currentProject,
   } = useAppStore();
 
   const { generate } = useImageGeneration();
+  const budgetStatus = useBudgetStatus();
   const { edit } = useImageEditing();
+  const { selectByText } = useTextSelection();
+  const { saveSelection } = useSavedMasks();
+  const { providerId, setProviderId, streamResponses, setStreamResponses } = useSettingsStore();
+  const cancelAllJobs = useJobStore((state) => state.cancelAllJobs);
+  const activeJobCount = useJobStore((state) => state.jobs.filter(isActiveJob).length);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [showHintsModal, setShowHintsModal] = useState(false);
+  const [selectionQuery, setSelectionQuery] = useState('');
+  const [checkedMaskIds, setCheckedMaskIds] = useState<string[]>([]);
+  const [maskName, setMaskName] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleGenerate = () => {
-    if (!currentPrompt.trim()) return;
+    if (!currentPrompt.trim() || budgetStatus.level === 'blocked') return;
     
     if (selectedTool === 'generate') {
       const referenceImages = uploadedImages
@@ -51,9 +88,7 @@ export const PromptComposer: React.FC = () => {
         
       generate({
         prompt: currentPrompt,
-        referenceImages: referenceImages.length > 0 ? referenceImages : undefined,
-        temperature,
-        seed: seed || undefined
+        referenceImages: referenceImages.length > 0 ? referenceImages : undefined
       });
     } else if (selectedTool === 'edit' || selectedTool === 'mask') {
       edit(currentPrompt);
@@ -78,7 +113,7 @@ export const PromptComposer: React.FC = () => {
             addEditReferenceImage(dataUrl);
           }
           // Set as canvas image if none exists
-          if (!canvasImage) {
+          if (!canvasImage && !canvasAssetId) {
             setCanvasImage(dataUrl);
           }
         } else if (selectedTool === 'mask') {
@@ -93,21 +128,49 @@ export const PromptComposer: React.FC = () => {
     }
   };
 
+  // New candidates start unchecked, so nothing is accepted by accident
+  useEffect(() => {
+    setCheckedMaskIds([]);
+  }, [maskCandidates]);
+
+  const handleSelectByText = () => {
+    if (!selectionQuery.trim() || (!canvasImage && !canvasAssetId)) return;
+    selectByText(selectionQuery.trim());
+  };
+
+  const toggleMaskCandidate = (id: string) => {
+    setCheckedMaskIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  };
+
+  // Accepted candidates join any selection already made
+  const handleAcceptMasks = () => {
+    const accepted = maskCandidates.filter(mask => checkedMaskIds.includes(mask.id));
+    if (accepted.length === 0) return;
+    setSelectedMask(ImageProcessor.mergeMasks(selectedMask ? [selectedMask, ...accepted] : accepted));
+    setMaskCandidates([]);
+  };
+
+  const handleSaveMask = async () => {
+    await saveSelection(maskName);
+    setMaskName('');
+  };
+
   const handleClearSession = () => {
     setCurrentPrompt('');
     clearUploadedImages();
     clearEditReferenceImages();
     clearBrushStrokes();
+    setMaskCandidates([]);
+    setSelectedMask(null);
     setCanvasImage(null);
-    setSeed(null);
-    setTemperature(0.7);
+    resetGenerationSettings();
     setShowClearConfirm(false);
   };
 
   const tools = [
     { id: 'generate', icon: Wand2, label: 'Generate', description: 'Create from text' },
     { id: 'edit', icon: Edit3, label: 'Edit', description: 'Modify existing' },
-    { id: 'mask', icon: MousePointer, label: 'Select', description: 'Click to select' },
+    { id: 'mask', icon: MousePointer, label: 'Select', description: 'Paint or describe a selection' },
   ] as const;
 
   if (!showPromptPanel) {
@@ -187,7 +250,7 @@ export const PromptComposer: React.FC = () => {
           )}
           {selectedTool === 'edit' && (
             <p className="text-xs text-gray-500 mb-3">
-              {canvasImage ? 'Optional style references, up to 2 images' : 'Upload image to edit, up to 2 images'}
+              {canvasImage || canvasAssetId ? 'Optional style references, up to 2 images' : 'Upload image to edit, up to 2 images'}
             </p>
           )}
           <input
@@ -237,6 +300,86 @@ export const PromptComposer: React.FC = () => {
         </div>
       </div>
 
+      {/* Selection by description */}
+      {selectedTool === 'mask' && (
+        <div>
+          <label className="text-sm font-medium text-gray-300 mb-1 block">Select by Description</label>
+          <p className="text-xs text-gray-500 mb-3">Name what to select, e.g. "the red car"</p>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={selectionQuery}
+              onChange={(e) => setSelectionQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSelectByText()}
+              placeholder="the sky"
+              className="flex-1 min-w-0 h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSelectByText}
+              disabled={!selectionQuery.trim() || (!canvasImage && !canvasAssetId)}
+            >
+              <Search className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {maskCandidates.length > 0 && (
+            <div className="mt-3 p-3 bg-gray-900 rounded-lg border border-gray-700 space-y-2">
+              <p className="text-xs text-gray-400">Found {maskCandidates.length}; pick the ones to use</p>
+              {maskCandidates.map((mask, index) => (
+                <label key={mask.id} className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={checkedMaskIds.includes(mask.id)}
+                    onChange={() => toggleMaskCandidate(mask.id)}
+                    className="accent-yellow-400"
+                  />
+                  <span className="h-3 w-3 rounded-sm flex-shrink-0" style={{ backgroundColor: getMaskColor(index) }} />
+                  <span className="truncate">{mask.label || `Region ${index + 1}`}</span>
+                </label>
+              ))}
+              <div className="flex space-x-2 pt-1">
+                <Button size="sm" className="flex-1" onClick={handleAcceptMasks} disabled={checkedMaskIds.length === 0}>
+                  Use Selection
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setMaskCandidates([])}>
+                  Discard
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {selectedMask && (
+            <div className="mt-3 flex items-center justify-between text-xs">
+              <span className="text-purple-400 truncate">Selected: {selectedMask.label || 'region'}</span>
+              <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setSelectedMask(null)}>
+                <X className="h-3 w-3 mr-1" />
+                Clear
+              </Button>
+            </div>
+          )}
+          <MaskRefinementPanel />
+
+          {/* Saved masks live in the project, listed in History */}
+          {currentProject && (selectedMask || brushStrokes.length > 0) && (
+            <div className="mt-3 flex space-x-2">
+              <input
+                type="text"
+                value={maskName}
+                onChange={(e) => setMaskName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveMask()}
+                placeholder="Mask name"
+                className="flex-1 min-w-0 h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+              />
+              <Button variant="outline" size="sm" onClick={handleSaveMask} title="Save mask for reuse">
+                <Save className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Prompt Input */}
       <div>
         <label className="text-sm font-medium text-gray-300 mb-3 block">
@@ -273,25 +416,77 @@ export const PromptComposer: React.FC = () => {
         </button>
       </div>
 
+      {/* Aspect Ratio */}
+      {selectedTool === 'generate' && (
+        <div>
+          <label className="text-sm font-medium text-gray-300 mb-3 block">Aspect Ratio</label>
+          <div className="grid grid-cols-4 gap-2">
+            {(Object.keys(ASPECT_RATIO_SIZES) as AspectRatio[]).map((ratio) => {
+              const { width, height } = ASPECT_RATIO_SIZES[ratio];
+              return (
+                <button
+                  key={ratio}
+                  onClick={() => setAspectRatio(ratio)}
+                  title={`${width}×${height}`}
+                  className={cn(
+                    'flex flex-col items-center justify-center h-12 rounded-lg border text-xs transition-all',
+                    aspectRatio === ratio
+                      ? 'bg-yellow-400/10 border-yellow-400/50 text-yellow-400'
+                      : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-800 hover:text-gray-300'
+                  )}
+                >
+                  <div
+                    className="border border-current rounded-sm mb-1"
+                    style={{ width: (width / Math.max(width, height)) * 16, height: (height / Math.max(width, height)) * 16 }}
+                  />
+                  {ratio}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Output size {ASPECT_RATIO_SIZES[aspectRatio].width}×{ASPECT_RATIO_SIZES[aspectRatio].height}
+          </p>
+        </div>
+      )}
 
       {/* Generate Button */}
-      <Button
-        onClick={handleGenerate}
-        disabled={isGenerating || !currentPrompt.trim()}
-        className="w-full h-14 text-base font-medium"
-      >
-        {isGenerating ? (
-          <>
-            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-900 mr-2" />
-            Generating...
-          </>
-        ) : (
-          <>
-            <Wand2 className="h-4 w-4 mr-2" />
-            {selectedTool === 'generate' ? 'Generate' : 'Apply Edit'}
-          </>
+      <div>
+        {budgetStatus.message && (
+          <div className={cn(
+            'flex items-start mb-2 p-2 rounded border text-xs',
+            budgetStatus.level === 'blocked'
+              ? 'bg-red-900/20 border-red-800 text-red-300'
+              : 'bg-yellow-900/20 border-yellow-800 text-yellow-300'
+          )}>
+            <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+            <span>
+              {budgetStatus.message}
+              {budgetStatus.level === 'blocked' && ' Raise the limit under Usage & Costs to continue.'}
+            </span>
+          </div>
+        )}
+        <Button
+          onClick={handleGenerate}
+          disabled={!currentPrompt.trim() || budgetStatus.level === 'blocked'}
+          className="w-full h-14 text-base font-medium"
+        >
+          <Wand2 className="h-4 w-4 mr-2" />
+          {selectedTool === 'generate' ? 'Generate' : 'Apply Edit'}
+        </Button>
+        {activeJobCount > 0 && (
+          <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
+            <span className="flex items-center">
+              <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-yellow-400 mr-2" />
+              {activeJobCount} request{activeJobCount !== 1 ? 's' : ''} in progress
+            </span>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={cancelAllJobs}>
+              <Square className="h-3 w-3 mr-1" />
+              Cancel all
+            </Button>
+          </div>
         )}
-      </Button>
+      </div>
 
       {/* Advanced Controls */}
       <div>
@@ -339,6 +534,31 @@ export const PromptComposer: React.FC = () => {
         
         {showAdvanced && (
           <div className="mt-4 space-y-4">
+            {/* Model provider */}
+            <div>
+              <label className="text-xs text-gray-400 mb-2 block">
+                Model
+              </label>
+              <select
+                value={providerId}
+                onChange={(e) => setProviderId(e.target.value as ProviderId)}
+                className="w-full h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+              >
+                {PROVIDER_OPTIONS.map((option) => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+              <label className="flex items-center mt-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={streamResponses}
+                  onChange={(e) => setStreamResponses(e.target.checked)}
+                  className="mr-2 accent-yellow-400"
+                />
+                Show live progress while generating
+              </label>
+            </div>
+
             {/* Temperature */}
             <div>
               <label className="text-xs text-gray-400 mb-2 block">
@@ -362,12 +582,101 @@ export const PromptComposer: React.FC = () => {
               </label>
               <input
                 type="number"
-                value={seed || ''}
-                onChange={(e) => setSeed(e.target.value ? parseInt(e.target.value) : null)}
+                min="0"
+                max={MAX_SEED}
+                step="1"
+                value={seed ?? ''}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value);
+                  setSeed(Number.isNaN(value) ? null : clampSeed(value));
+                }}
                 placeholder="Random"
                 className="w-full h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
               />
             </div>
+
+            {/* Sampling */}
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-xs text-gray-400 mb-2 block">
+                  Top P
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={topP ?? ''}
+                  onChange={(e) => setTopP(e.target.value ? parseFloat(e.target.value) : null)}
+                  placeholder="Default"
+                  className="w-full h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-gray-400 mb-2 block">
+                  Top K
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={topK ?? ''}
+                  onChange={(e) => setTopK(e.target.value ? parseInt(e.target.value) : null)}
+                  placeholder="Default"
+                  className="w-full h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+                />
+              </div>
+            </div>
+
+            {/* Variants */}
+            <div>
+              <label className="text-xs text-gray-400 mb-2 block">
+                Variants
+              </label>
+              <select
+                value={variantCount}
+                onChange={(e) => setVariantCount(parseInt(e.target.value))}
+                className="w-full h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+              >
+                {[1, 2, 3, 4, 6, 8].map((count) => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+              {variantCount > 1 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {seed !== null
+                    ? `One request per seed, counting up from ${seed}`
+                    : 'One request per variant, each with a random seed'}
+                </p>
+              )}
+            </div>
+
+            {/* Candidate count */}
+            <div>
+              <label className="text-xs text-gray-400 mb-2 block">
+                Images per request
+              </label>
+              <select
+                value={candidateCount}
+                onChange={(e) => setCandidateCount(parseInt(e.target.value))}
+                className="w-full h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+              >
+                {[1, 2, 3, 4].map((count) => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Response modalities */}
+            <label className="flex items-center text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={responseModalities.includes('TEXT')}
+                onChange={(e) => setResponseModalities(e.target.checked ? ['IMAGE', 'TEXT'] : ['IMAGE'])}
+                className="mr-2 accent-yellow-400"
+              />
+              Allow text alongside images
+            </label>
           </div>
         )}
       </div>
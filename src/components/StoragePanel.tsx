@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, Pin, PinOff, AlertTriangle, Trash2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { useAppStore } from '../store/useAppStore';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { CacheService } from '../services/cacheService';
+import { StorageService, StorageUsage, QUOTA_WARNING_RATIO } from '../services/storageService';
+import { Project } from '../types';
+import { formatBytes } from '../utils/formatUtils';
+import { cn } from '../utils/cn';
+
+interface StoragePanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CAP_OPTIONS: Array<{ label: string; bytes: number | null }> = [
+  { label: 'No limit', bytes: null },
+  { label: '100 MB', bytes: 100 * 1024 * 1024 },
+  { label: '250 MB', bytes: 250 * 1024 * 1024 },
+  { label: '500 MB', bytes: 500 * 1024 * 1024 },
+  { label: '1 GB', bytes: 1024 * 1024 * 1024 },
+  { label: '2 GB', bytes: 2 * 1024 * 1024 * 1024 },
+];
+
+export const StoragePanel: React.FC<StoragePanelProps> = ({ open, onOpenChange }) => {
+  const { currentProject, setProjectPinned, setStorageLevel } = useAppStore();
+  const { storageCapBytes, setStorageCapBytes } = useSettingsStore();
+
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      const result = await StorageService.getUsage(useAppStore.getState().currentProject);
+      setUsage(result);
+      setStorageLevel(StorageService.getQuotaLevel(result.usage, result.quota));
+    } catch (error) {
+      console.error('Failed to load storage usage:', error);
+    }
+  }, [setStorageLevel]);
+
+  useEffect(() => {
+    if (open) {
+      loadUsage();
+    } else {
+      setMessage(null);
+    }
+  }, [open, loadUsage]);
+
+  const handleTogglePin = async (project: Project) => {
+    const pinned = !project.pinned;
+    if (project.id === currentProject?.id) {
+      setProjectPinned(pinned);
+    } else {
+      await CacheService.saveProject({ ...project, pinned });
+    }
+    await loadUsage();
+  };
+
+  const handleEvict = async (removeUnusedOnly: boolean) => {
+    setIsWorking(true);
+    try {
+      const { evictedCount, freedBytes } = removeUnusedOnly || storageCapBytes === null
+        ? await StorageService.removeUnusedAssets(currentProject)
+        : await StorageService.evict(storageCapBytes, currentProject, useAppStore.getState().otherTabProjectIds);
+      setMessage(evictedCount > 0
+        ? `Removed ${evictedCount} image${evictedCount !== 1 ? 's' : ''}, freeing ${formatBytes(freedBytes)}`
+        : removeUnusedOnly
+          ? 'No unused images to remove'
+          : 'Nothing else can be removed without touching pinned or open projects');
+      await loadUsage();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const quotaRatio = usage?.usage !== null && usage?.quota ? usage.usage / usage.quota : null;
+  const level = usage ? StorageService.getQuotaLevel(usage.usage, usage.quota) : 'ok';
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 border border-gray-700 rounded-lg p-6 w-full max-w-2xl max-h-[90vh] flex flex-col z-50">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-lg font-semibold text-gray-100">
+              Storage
+            </Dialog.Title>
+            <Dialog.Close asChild>
+              <Button variant="ghost" size="icon" className="h-6 w-6">
+                <X className="h-4 w-4" />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          {!usage ? (
+            <p className="text-sm text-gray-500 py-8 text-center">Measuring storage...</p>
+          ) : (
+            <div className="flex-1 overflow-y-auto min-h-0 space-y-4">
+              {/* Browser quota */}
+              <div className="p-4 bg-gray-950 rounded-lg border border-gray-700">
+                <div className="flex justify-between text-xs text-gray-400 mb-2">
+                  <span>Browser storage</span>
+                  <span className="text-gray-300">
+                    {usage.usage !== null && usage.quota !== null
+                      ? `${formatBytes(usage.usage)} of ${formatBytes(usage.quota)}`
+                      : 'Not reported by this browser'}
+                  </span>
+                </div>
+                {quotaRatio !== null && (
+                  <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                    <div
+                      className={cn(
+                        'h-full rounded-full',
+                        level === 'critical' ? 'bg-red-500' : level === 'warning' ? 'bg-yellow-400' : 'bg-green-500'
+                      )}
+                      style={{ width: `${Math.min(100, quotaRatio * 100)}%` }}
+                    />
+                  </div>
+                )}
+                {level !== 'ok' && (
+                  <div className={cn(
+                    'flex items-center mt-3 text-xs',
+                    level === 'critical' ? 'text-red-300' : 'text-yellow-300'
+                  )}>
+                    <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                    Storage is over {Math.round(QUOTA_WARNING_RATIO * 100)}% full. New images may fail to save; free space by removing unused images or deleting projects.
+                  </div>
+                )}
+                <div className="mt-3 space-y-1 text-xs text-gray-500">
+                  <div className="flex justify-between">
+                    <span>Images stored:</span>
+                    <span className="text-gray-300">{formatBytes(usage.assetBytes)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Not used by any project:</span>
+                    <span className="text-gray-300">
+                      {formatBytes(usage.orphanBytes)} ({usage.orphanCount})
+                    </span>
+                  </div>
+                </div>
+              </div>
+
+              {/* Eviction */}
+              <div className="p-4 bg-gray-950 rounded-lg border border-gray-700">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="text-xs font-medium text-gray-300">Image storage limit</h4>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Least recently used images of unpinned projects are removed to stay under the limit
+                    </p>
+                  </div>
+                  <select
+                    value={storageCapBytes ?? ''}
+                    onChange={(e) => setStorageCapBytes(e.target.value ? Number(e.target.value) : null)}
+                    className="h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+                  >
+                    {CAP_OPTIONS.map((option) => (
+                      <option key={option.label} value={option.bytes ?? ''}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex space-x-2 mt-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isWorking || storageCapBytes === null}
+                    onClick={() => handleEvict(false)}
+                  >
+                    Enforce limit now
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isWorking || usage.orphanCount === 0}
+                    onClick={() => handleEvict(true)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Remove unused images
+                  </Button>
+                </div>
+                {message && <p className="text-xs text-gray-400 mt-2">{message}</p>}
+              </div>
+
+              {/* Per-project usage */}
+              <div>
+                <h4 className="text-xs font-medium text-gray-400 mb-2">Projects</h4>
+                <div className="space-y-1">
+                  {usage.projects.map(({ project, bytes, assetCount, missingAssetCount }) => (
+                    <div
+                      key={project.id}
+                      className="flex items-center justify-between p-2 rounded border border-gray-800 bg-gray-950"
+                    >
+                      <div className="min-w-0 mr-2">
+                        <div className="text-sm text-gray-200 truncate">
+                          {project.title}
+                          {project.id === currentProject?.id && (
+                            <span className="ml-2 text-xs text-yellow-400">Open</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {assetCount} image{assetCount !== 1 ? 's' : ''}
+                          {missingAssetCount > 0 && (
+                            <span className="text-yellow-500"> · {missingAssetCount} removed</span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        <span className="text-xs text-gray-300">{formatBytes(bytes)}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className={cn('h-8 w-8', project.pinned && 'text-yellow-400')}
+                          onClick={() => handleTogglePin(project)}
+                          title={project.pinned ? 'Unpin (allow eviction)' : 'Pin (never evict)'}
+                        >
+                          {project.pinned ? <Pin className="h-4 w-4" /> : <PinOff className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
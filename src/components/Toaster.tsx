@@ -0,0 +1,71 @@
+import React, { useEffect } from 'react';
+import { X, AlertTriangle, CheckCircle, Info, XCircle } from 'lucide-react';
+import { Button } from './ui/Button';
+import { useNotificationStore, Notification } from '../store/useNotificationStore';
+import { cn } from '../utils/cn';
+
+const ICONS = {
+  error: XCircle,
+  warning: AlertTriangle,
+  success: CheckCircle,
+  info: Info,
+};
+
+const ToastItem: React.FC<{ notification: Notification }> = ({ notification }) => {
+  const dismiss = useNotificationStore((state) => state.dismiss);
+  const { id, type, title, message, action, duration } = notification;
+  const Icon = ICONS[type];
+
+  useEffect(() => {
+    if (duration === null) return;
+    const timer = setTimeout(() => dismiss(id), duration);
+    return () => clearTimeout(timer);
+  }, [id, duration, dismiss]);
+
+  return (
+    <div
+      role={type === 'error' ? 'alert' : 'status'}
+      className="flex items-start w-80 p-3 bg-gray-900 border border-gray-700 rounded-lg shadow-lg"
+    >
+      <Icon className={cn(
+        'h-4 w-4 mr-3 mt-0.5 flex-shrink-0',
+        type === 'error' && 'text-red-400',
+        type === 'warning' && 'text-yellow-400',
+        type === 'success' && 'text-green-400',
+        type === 'info' && 'text-blue-400'
+      )} />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-100">{title}</p>
+        {message && <p className="text-xs text-gray-400 mt-1 break-words">{message}</p>}
+        {action && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="mt-2 h-7"
+            onClick={() => {
+              dismiss(id);
+              action.onClick();
+            }}
+          >
+            {action.label}
+          </Button>
+        )}
+      </div>
+      <Button variant="ghost" size="icon" className="h-6 w-6 ml-2 flex-shrink-0" onClick={() => dismiss(id)}>
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+};
+
+export const Toaster: React.FC = () => {
+  const notifications = useNotificationStore((state) => state.notifications);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col space-y-2" aria-live="polite">
+      {notifications.map((notification) => (
+        <ToastItem key={notification.id} notification={notification} />
+      ))}
+    </div>
+  );
+};
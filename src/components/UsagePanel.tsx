@@ -0,0 +1,201 @@
+import React, { useMemo } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, Trash2 } from 'lucide-react';
+import { Button } from './ui/Button';
+import { useAppStore } from '../store/useAppStore';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useUsageStore } from '../store/useUsageStore';
+import { useBudgetStatus } from '../hooks/useBudgetStatus';
+import { UsageService, BudgetLimits, DEFAULT_PRICES, ModelPrice, formatCost, getDayKey } from '../services/usageService';
+import { cn } from '../utils/cn';
+
+interface UsagePanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const HISTORY_DAYS = 14;
+
+const parseDollars = (value: string): number | null => {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+const LimitInput: React.FC<{
+  label: string;
+  value: number | null;
+  onChange: (value: number | null) => void;
+}> = ({ label, value, onChange }) => (
+  <label className="block">
+    <span className="text-xs text-gray-500">{label}</span>
+    <input
+      type="number"
+      min="0"
+      step="0.5"
+      value={value ?? ''}
+      onChange={(e) => onChange(parseDollars(e.target.value))}
+      placeholder="No limit"
+      className="mt-1 w-full h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+    />
+  </label>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ open, onOpenChange }) => {
+  const currentProject = useAppStore((state) => state.currentProject);
+  const { entries, clearUsage } = useUsageStore();
+  const { budgets, setBudgets, priceOverrides, setPriceOverride } = useSettingsStore();
+  const budgetStatus = useBudgetStatus();
+
+  const dailySpend = useMemo(() => UsageService.getDailySpend(entries, HISTORY_DAYS), [entries]);
+  const todaySpend = UsageService.getSpendOn(entries, getDayKey(Date.now()));
+  const projectSpend = UsageService.getProjectSpend(currentProject);
+  const maxDailyCost = Math.max(...dailySpend.map(d => d.cost), 0);
+  const models = [...new Set([...Object.keys(DEFAULT_PRICES), ...Object.keys(priceOverrides)])];
+
+  const updateLimits = (scope: 'daily' | 'project', limits: Partial<BudgetLimits>) => {
+    setBudgets({ ...budgets, [scope]: { ...budgets[scope], ...limits } });
+  };
+
+  const updatePrice = (model: string, changes: Partial<ModelPrice>) => {
+    const current = UsageService.getPrice(model, priceOverrides) ?? { inputPerMillion: 0, outputPerMillion: 0 };
+    setPriceOverride(model, { ...current, ...changes });
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 border border-gray-700 rounded-lg p-6 w-full max-w-2xl max-h-[90vh] flex flex-col z-50">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-lg font-semibold text-gray-100">
+              Usage & Costs
+            </Dialog.Title>
+            <Dialog.Close asChild>
+              <Button variant="ghost" size="icon" className="h-6 w-6">
+                <X className="h-4 w-4" />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className="flex-1 overflow-y-auto min-h-0 space-y-4">
+            {budgetStatus.message && (
+              <div className={cn(
+                'p-3 rounded-lg border text-xs',
+                budgetStatus.level === 'blocked'
+                  ? 'bg-red-900/20 border-red-800 text-red-300'
+                  : 'bg-yellow-900/20 border-yellow-800 text-yellow-300'
+              )}>
+                {budgetStatus.message}
+              </div>
+            )}
+
+            {/* Totals */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="p-4 bg-gray-950 rounded-lg border border-gray-700">
+                <div className="text-xs text-gray-500">Today</div>
+                <div className="text-xl text-gray-100 mt-1">{formatCost(todaySpend)}</div>
+              </div>
+              <div className="p-4 bg-gray-950 rounded-lg border border-gray-700">
+                <div className="text-xs text-gray-500 truncate">
+                  {currentProject ? currentProject.title : 'No project open'}
+                </div>
+                <div className="text-xl text-gray-100 mt-1">{formatCost(projectSpend)}</div>
+              </div>
+            </div>
+
+            {/* Per day */}
+            <div className="p-4 bg-gray-950 rounded-lg border border-gray-700">
+              <h4 className="text-xs font-medium text-gray-300 mb-3">Last {HISTORY_DAYS} days</h4>
+              <div className="space-y-1">
+                {[...dailySpend].reverse().map(({ day, cost, requests }) => (
+                  <div key={day} className="flex items-center text-xs">
+                    <span className="w-24 text-gray-500">{day}</span>
+                    <div className="flex-1 h-2 mx-2 bg-gray-800 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-yellow-400 rounded-full"
+                        style={{ width: maxDailyCost > 0 ? `${(cost / maxDailyCost) * 100}%` : 0 }}
+                      />
+                    </div>
+                    <span className="w-28 text-right text-gray-300">
+                      {formatCost(cost)} · {requests}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Budgets */}
+            <div className="p-4 bg-gray-950 rounded-lg border border-gray-700">
+              <h4 className="text-xs font-medium text-gray-300">Budgets (USD)</h4>
+              <p className="text-xs text-gray-500 mt-1 mb-3">
+                Past the soft limit you are warned before submitting; the hard limit blocks new requests
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <LimitInput label="Daily soft limit" value={budgets.daily.soft} onChange={(soft) => updateLimits('daily', { soft })} />
+                <LimitInput label="Daily hard limit" value={budgets.daily.hard} onChange={(hard) => updateLimits('daily', { hard })} />
+                <LimitInput label="Per-project soft limit" value={budgets.project.soft} onChange={(soft) => updateLimits('project', { soft })} />
+                <LimitInput label="Per-project hard limit" value={budgets.project.hard} onChange={(hard) => updateLimits('project', { hard })} />
+              </div>
+            </div>
+
+            {/* Prices */}
+            <div className="p-4 bg-gray-950 rounded-lg border border-gray-700">
+              <h4 className="text-xs font-medium text-gray-300">Prices (USD per million tokens)</h4>
+              <p className="text-xs text-gray-500 mt-1 mb-3">
+                Estimates use the price at the time of each request; changing a price doesn't reprice history
+              </p>
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2 text-xs text-gray-500">
+                  <span className="flex-1">Model</span>
+                  <span className="w-20">Input</span>
+                  <span className="w-20">Output</span>
+                  <span className="w-14" />
+                </div>
+                {models.map((model) => {
+                  const price = UsageService.getPrice(model, priceOverrides);
+                  return (
+                    <div key={model} className="flex items-center space-x-2">
+                      <span className="flex-1 min-w-0 text-xs text-gray-300 truncate" title={model}>{model}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={price?.inputPerMillion ?? ''}
+                        onChange={(e) => updatePrice(model, { inputPerMillion: parseDollars(e.target.value) ?? 0 })}
+                        title="Input"
+                        className="w-20 h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={price?.outputPerMillion ?? ''}
+                        onChange={(e) => updatePrice(model, { outputPerMillion: parseDollars(e.target.value) ?? 0 })}
+                        title="Output"
+                        className="w-20 h-8 px-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-100"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-14 h-8 px-2 text-xs"
+                        disabled={!priceOverrides[model]}
+                        onClick={() => setPriceOverride(model, null)}
+                      >
+                        Reset
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <Button variant="outline" size="sm" disabled={entries.length === 0} onClick={clearUsage}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Clear usage history
+            </Button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { AssetService } from '../services/assetService';
+import { useAppStore } from '../store/useAppStore';
+
+// Object URL for a stored asset, held for as long as the component is mounted
+export const useAssetUrl = (assetId: string | null | undefined): string | undefined => {
+  const [url, setUrl] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    setUrl(undefined);
+    if (!assetId) return;
+
+    let active = true;
+    let acquired = false;
+
+    AssetService.acquireUrl(assetId).then(objectUrl => {
+      if (!objectUrl) return;
+      if (active) {
+        acquired = true;
+        setUrl(objectUrl);
+      } else {
+        AssetService.releaseUrl(assetId);
+      }
+    }).catch(error => {
+      console.error('Failed to load asset:', error);
+    });
+
+    return () => {
+      active = false;
+      if (acquired) AssetService.releaseUrl(assetId);
+    };
+  }, [assetId]);
+
+  return url;
+};
+
+// The image currently on the canvas: either a stored asset or a plain URL (e.g. an upload)
+export const useCanvasImageUrl = (): string | null => {
+  const { canvasImage, canvasAssetId } = useAppStore();
+  const assetUrl = useAssetUrl(canvasAssetId);
+  return canvasAssetId ? assetUrl || null : canvasImage;
+};
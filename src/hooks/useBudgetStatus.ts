@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useUsageStore } from '../store/useUsageStore';
+import { UsageService, BudgetStatus, getDayKey } from '../services/usageService';
+
+// Where spending stands against the configured budgets, for gating submissions
+export const useBudgetStatus = (): BudgetStatus => {
+  const currentProject = useAppStore((state) => state.currentProject);
+  const entries = useUsageStore((state) => state.entries);
+  const budgets = useSettingsStore((state) => state.budgets);
+
+  return useMemo(() => UsageService.getBudgetStatus(
+    UsageService.getSpendOn(entries, getDayKey(Date.now())),
+    UsageService.getProjectSpend(currentProject),
+    budgets
+  ), [currentProject, entries, budgets]);
+};
+
+// The same check outside React, read when a request is about to be queued
+export const getBudgetStatus = (): BudgetStatus => UsageService.getBudgetStatus(
+  UsageService.getSpendOn(useUsageStore.getState().entries, getDayKey(Date.now())),
+  UsageService.getProjectSpend(useAppStore.getState().currentProject),
+  useSettingsStore.getState().budgets
+);
@@ -1,199 +1,515 @@
 import { useMutation } from '@tanstack/react-query';
-import { geminiService, GenerationRequest, EditRequest } from '../services/geminiService';
+import { GenerationRequest, EditRequest, ImageProvider, GenerationProgress, MAX_SEED, clampSeed } from '../services/imageProvider';
+import { getImageProvider } from '../services/providerRegistry';
+import {
+  InvalidInputError,
+  SafetyBlockError,
+  EmptyResponseError,
+  CancelledError,
+  withRetry,
+  throwIfCancelled
+} from '../services/imageErrors';
+import { useNotificationStore } from '../store/useNotificationStore';
+import { useJobStore, getJobSignal, JobProgress, JobType, JobRunner } from '../store/useJobStore';
+import { getBudgetStatus } from './useBudgetStatus';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useUsageStore } from '../store/useUsageStore';
+import { UsageService } from '../services/usageService';
 import { useAppStore } from '../store/useAppStore';
-import { generateId } from '../utils/imageUtils';
-import { Generation, Edit, Asset } from '../types';
+import { AssetService } from '../services/assetService';
+import { CacheService } from '../services/cacheService';
+import { tabSyncService } from '../services/tabSyncService';
+import { SegmentationService } from '../services/segmentationService';
+import { ImageProcessor } from '../services/imageProcessing';
+import { generateId, urlToBase64, createImageFromBase64 } from '../utils/imageUtils';
+import { Asset, Project, Generation, Edit, GenerationParameters, BrushStroke, SegmentationMask, SavedMask, TokenUsage } from '../types';
+
+// Snapshot of the Advanced panel, sent with the request and stored with the result
+const getGenerationParameters = (): GenerationParameters => {
+  const { temperature, seed, topP, topK, candidateCount, responseModalities } = useAppStore.getState();
+  return {
+    temperature,
+    seed: seed ?? undefined,
+    topP: topP ?? undefined,
+    topK: topK ?? undefined,
+    candidateCount,
+    responseModalities
+  };
+};
+
+// One seed per variant: consecutive seeds from a chosen seed, wrapping back to
+// zero past MAX_SEED, otherwise random ones
+const createVariantSeeds = (count: number, baseSeed?: number): number[] =>
+  Array.from({ length: count }, (_, i) =>
+    baseSeed !== undefined ? (clampSeed(baseSeed) + i) % (MAX_SEED + 1) : Math.floor(Math.random() * MAX_SEED)
+  );
+
+// One prompt fanned out to several requests that share a Generation
+interface VariantGroup {
+  generationId: string;
+  // Where the variants go; null until the first one creates a project
+  projectId: string | null;
+  prompt: string;
+  referenceImages?: string[];
+  // As chosen by the user; each request gets its own seed on top
+  parameters: GenerationParameters;
+  variantCount: number;
+  provider: ImageProvider;
+  // Reference images are stored once and shared by every variant
+  sourceAssets?: Promise<Asset[]>;
+}
+
+// Everything an edit needs, captured when it is queued so that later canvas
+// changes don't leak into a job that is still waiting to run
+interface EditJob {
+  instruction: string;
+  projectId: string | null;
+  sourceAssetId: string | null;
+  sourceImage: string | null;
+  referenceImages: string[];
+  brushStrokes: BrushStroke[];
+  selectedMask: SegmentationMask | null;
+  parentGenerationId: string;
+  parameters: GenerationParameters;
+  provider: ImageProvider;
+}
+
+const estimateCost = (modelVersion: string, usage: TokenUsage | undefined): number | undefined =>
+  usage && UsageService.estimateCost(modelVersion, usage, useSettingsStore.getState().priceOverrides);
+
+// Adds a billed request to the spend ledger, against the project it was made for
+const recordSpend = (
+  projectId: string | null,
+  modelVersion: string,
+  usage: TokenUsage | undefined,
+  cost: number | undefined
+) => {
+  if (!usage) return;
+  useUsageStore.getState().recordUsage({
+    timestamp: Date.now(),
+    projectId,
+    modelVersion,
+    usage,
+    cost: cost ?? 0
+  });
+};
+
+// Writes to projects that are no longer open run one at a time, so results
+// finishing together don't overwrite each other
+let storedProjectWrites: Promise<void> = Promise.resolve();
+
+// Results go to the project their job was started in, even if another one is
+// open by now; that project is then updated in storage. A job started with no
+// project open goes to the one open when it finishes, created if need be.
+// Returns the id of the project written to, and whether it is the open one.
+const updateJobProject = async (
+  projectId: string | null,
+  update: (project: Project) => Project
+): Promise<{ projectId: string; isOpen: boolean }> => {
+  const { currentProject, setCurrentProject } = useAppStore.getState();
+  if (!projectId || currentProject?.id === projectId) {
+    const project = currentProject ?? {
+      id: generateId(),
+      title: 'Untitled Project',
+      generations: [],
+      edits: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+    setCurrentProject({ ...update(project), updatedAt: Date.now() });
+    return { projectId: project.id, isOpen: true };
+  }
+
+  storedProjectWrites = storedProjectWrites.then(async () => {
+    // Deleted while the job ran: there is nowhere left to put the result
+    const stored = await CacheService.getProject(projectId);
+    if (!stored) return;
+    const updated = { ...update(stored), updatedAt: Date.now() };
+    await CacheService.saveProject(updated);
+    tabSyncService.publishProject(updated);
+  }).catch(error => {
+    console.error('Failed to save result to its project:', error);
+  });
+  await storedProjectWrites;
+  return { projectId, isOpen: false };
+};
+
+// Outlines a rectangle, ellipse or polygon stroke as a closed path
+const traceShape = (ctx: CanvasRenderingContext2D, stroke: BrushStroke) => {
+  const { points } = stroke;
+  ctx.beginPath();
+  if (stroke.shape === 'polygon') {
+    ctx.moveTo(points[0], points[1]);
+    for (let i = 2; i < points.length; i += 2) {
+      ctx.lineTo(points[i], points[i + 1]);
+    }
+    ctx.closePath();
+    return;
+  }
+
+  const [x0, y0, x1, y1] = points;
+  if (stroke.shape === 'ellipse') {
+    ctx.ellipse((x0 + x1) / 2, (y0 + y1) / 2, Math.abs(x1 - x0) / 2, Math.abs(y1 - y0) / 2, 0, 0, Math.PI * 2);
+  } else {
+    ctx.rect(Math.min(x0, x1), Math.min(y0, y1), Math.abs(x1 - x0), Math.abs(y1 - y0));
+  }
+};
+
+// Everything selected for an edit, in white on a transparent canvas: the
+// selection first, then strokes in order so erasing removes what came before
+const drawSelection = (
+  width: number,
+  height: number,
+  selectedMask: SegmentationMask | null,
+  brushStrokes: BrushStroke[]
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  canvas.width = width;
+  canvas.height = height;
+  
+  if (selectedMask) {
+    ctx.drawImage(ImageProcessor.maskToCanvas(selectedMask, 'white'), 0, 0, width, height);
+  }
+  
+  ctx.strokeStyle = 'white';
+  ctx.fillStyle = 'white';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  brushStrokes.forEach(stroke => {
+    ctx.globalCompositeOperation = stroke.mode === 'erase' ? 'destination-out' : 'source-over';
+    if (stroke.shape) {
+      traceShape(ctx, stroke);
+      ctx.fill();
+    } else if (stroke.points.length >= 4) {
+      ctx.lineWidth = stroke.brushSize;
+      ctx.beginPath();
+      ctx.moveTo(stroke.points[0], stroke.points[1]);
+      
+      for (let i = 2; i < stroke.points.length; i += 2) {
+        ctx.lineTo(stroke.points[i], stroke.points[i + 1]);
+      }
+      ctx.stroke();
+    }
+  });
+  return canvas;
+};
+
+// The selection as the black and white PNG sent to the model and kept as a
+// saved mask: changes go only where it is white
+const toMaskImage = (selection: HTMLCanvasElement): string => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  canvas.width = selection.width;
+  canvas.height = selection.height;
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(selection, 0, 0);
+  return canvas.toDataURL('image/png').split('base64,')[1];
+};
+
+// Long instructions make poor names; the start is enough to recognise a mask by
+const MASK_NAME_LENGTH = 40;
+
+const nameMask = (text: string): string =>
+  text.length > MASK_NAME_LENGTH ? `${text.slice(0, MASK_NAME_LENGTH).trimEnd()}…` : text;
+
+// A mask already saved for the same image is reused rather than stored again
+const findSavedMask = (masks: SavedMask[] | undefined, checksum: string, sourceAssetId: string | null) =>
+  masks?.find(mask => mask.asset.checksum === checksum && mask.sourceAssetId === sourceAssetId);
+
+const storeMaskImage = async (maskImage: string, job: EditJob): Promise<Asset> => {
+  const checksum = await AssetService.getChecksum(maskImage);
+  const { currentProject } = useAppStore.getState();
+  // The job's project may be closed by now; its stored copy has the masks then
+  const project = !job.projectId || currentProject?.id === job.projectId
+    ? currentProject
+    : await CacheService.getProject(job.projectId);
+  return findSavedMask(project?.masks, checksum, job.sourceAssetId)?.asset
+    ?? AssetService.createFromBase64(maskImage, 'mask');
+};
+
+// The canvas image as base64, whether it is a stored asset or a plain URL
+const loadSourceImage = async (assetId: string | null, url: string | null): Promise<string | null> =>
+  assetId ? AssetService.getBase64(assetId) : urlToBase64(url);
+
+// The selection with the strokes drawn over it as a single mask, so they can be
+// refined together; null when neither selects anything
+export const loadSelectionMask = async (): Promise<SegmentationMask | null> => {
+  const { canvasAssetId, canvasImage, selectedMask, brushStrokes } = useAppStore.getState();
+  if (brushStrokes.length === 0) return selectedMask;
+
+  let size = selectedMask && { width: selectedMask.imageData.width, height: selectedMask.imageData.height };
+  if (!size) {
+    const base64Image = await loadSourceImage(canvasAssetId, canvasImage);
+    if (!base64Image) return null;
+    size = await createImageFromBase64(base64Image);
+  }
+
+  const selection = drawSelection(size.width, size.height, selectedMask, brushStrokes);
+  const mask = ImageProcessor.fromMaskImage(selection, size.width, size.height, selectedMask?.label);
+  return mask && { ...mask, feather: selectedMask?.feather ?? 0 };
+};
+
+// Forwards streamed progress into the job so the canvas and queue can show it.
+// Each attempt starts afresh, since a retry runs the whole request again.
+const trackProgress = (jobId: string): ((progress: GenerationProgress) => void) | undefined => {
+  if (!useSettingsStore.getState().streamResponses) return undefined;
+
+  const { setJobProgress } = useJobStore.getState();
+  let current: JobProgress = { text: '', imageCount: 0, complete: false };
+  setJobProgress(jobId, current);
+
+  return (progress) => {
+    if (progress.type === 'text') {
+      current = { ...current, text: current.text + progress.text };
+    } else if (progress.type === 'image') {
+      current = { ...current, imageCount: current.imageCount + 1 };
+    } else {
+      current = { ...current, complete: true };
+    }
+    setJobProgress(jobId, current);
+  };
+};
+
+// The reason a billed request may not be sent, after telling the user, or
+// null when the hard budget still allows it
+const refuseOverBudget = (): string | null => {
+  const budgetStatus = getBudgetStatus();
+  if (budgetStatus.level !== 'blocked') return null;
+
+  const message = `${budgetStatus.message} Raise the limit under Usage & Costs to continue.`;
+  useNotificationStore.getState().notify({ type: 'error', title: 'Request not sent', message });
+  return message;
+};
+
+// Every billed request is queued through here, so the hard budget also holds
+// for shortcuts and retries. It is checked again when the job starts, since
+// jobs queued earlier may have used up the budget in the meantime.
+// Returns false when the request was refused.
+const enqueueBilledJob = (type: JobType, prompt: string, run: JobRunner): boolean => {
+  if (refuseOverBudget()) return false;
+  useJobStore.getState().enqueueJob(type, prompt, (jobId) => {
+    const refusal = refuseOverBudget();
+    return refusal ? Promise.reject(new Error(refusal)) : run(jobId);
+  });
+  return true;
+};
+
+// Tells the user about anything but success. Cancellations are expected,
+// so they get a quiet note instead of an error.
+const notifyFailure = (label: 'Generation' | 'Edit' | 'Selection', error: Error, retry: () => void) => {
+  const { notify } = useNotificationStore.getState();
+
+  if (error instanceof CancelledError) {
+    notify({ type: 'info', title: `${label} cancelled` });
+    return;
+  }
+
+  // A text-only reply is usually the model asking for clarification; keep it on screen
+  if (error instanceof EmptyResponseError && error.responseText) {
+    notify({
+      type: 'warning',
+      title: label === 'Selection' ? 'The model replied without a selection' : 'The model replied without an image',
+      message: error.responseText,
+      action: { label: 'Retry', onClick: retry },
+      duration: null
+    });
+    return;
+  }
+
+  notify({
+    type: error instanceof SafetyBlockError ? 'warning' : 'error',
+    title: `${label} failed`,
+    message: error.message,
+    action: error instanceof InvalidInputError ? undefined : { label: 'Retry', onClick: retry },
+    duration: 12000
+  });
+};
 
 export const useImageGeneration = () => {
-  const { addGeneration, setIsGenerating, setCanvasImage, setCurrentProject, currentProject } = useAppStore();
+  const { setCanvasAsset } = useAppStore();
 
   const generateMutation = useMutation({
-    mutationFn: async (request: GenerationRequest) => {
-      const images = await geminiService.generateImage(request);
-      return images;
-    },
-    onMutate: () => {
-      setIsGenerating(true);
-    },
-    onSuccess: (images, request) => {
-      if (images.length > 0) {
-        const outputAssets: Asset[] = images.map((base64, index) => ({
-          id: generateId(),
-          type: 'output',
-          url: `data:image/png;base64,${base64}`,
-          mime: 'image/png',
-          width: 1024, // Default Gemini output size
-          height: 1024,
-          checksum: base64.slice(0, 32) // Simple checksum
-        }));
+    mutationFn: ({ group, seed, jobId }: { group: VariantGroup; seed: number; jobId: string }) => withRetry(async () => {
+      const signal = getJobSignal(jobId);
+      throwIfCancelled(signal);
+
+      const request: GenerationRequest = {
+        prompt: group.prompt,
+        referenceImages: group.referenceImages,
+        parameters: { ...group.parameters, seed }
+      };
+      const { images, text, usage } = await group.provider.generateImage(request, { signal, onProgress: trackProgress(jobId) });
+      throwIfCancelled(signal);
+      
+      // Persist image bytes as blobs; the project only keeps asset references
+      const outputAssets = await Promise.all(
+        images.map(base64 => AssetService.createFromBase64(base64, 'output'))
+      );
+      // A failed upload must not be handed to every later variant
+      group.sourceAssets ??= Promise.all(
+        (group.referenceImages || []).map(base64 => AssetService.createFromBase64(base64, 'original'))
+      ).catch(error => {
+        group.sourceAssets = undefined;
+        throw error;
+      });
+      const sourceAssets = await group.sourceAssets;
+      
+      return { outputAssets, sourceAssets, text, usage };
+    }, getJobSignal(jobId)),
+    onSuccess: async ({ outputAssets, sourceAssets, text, usage }, { group, seed }) => {
+      if (outputAssets.length === 0) return;
+      const variantSeeds = outputAssets.map(() => seed);
+      const { modelVersion } = group.provider;
+      const costEstimate = estimateCost(modelVersion, usage);
+      let isFirstVariant = false;
 
+      // Later variants join the generation created by the first one to finish
+      const { projectId, isOpen } = await updateJobProject(group.projectId, project => {
+        const existing = project.generations.find(g => g.id === group.generationId);
+        if (existing) {
+          return {
+            ...project,
+            generations: project.generations.map(g => g.id === existing.id ? {
+              ...existing,
+              outputAssets: [...existing.outputAssets, ...outputAssets],
+              variantSeeds: [...(existing.variantSeeds || []), ...variantSeeds],
+              responseText: [existing.responseText, text].filter(Boolean).join('\n\n') || undefined,
+              usage: UsageService.addUsage(existing.usage, usage),
+              costEstimate: existing.costEstimate === undefined && costEstimate === undefined
+                ? undefined
+                : (existing.costEstimate ?? 0) + (costEstimate ?? 0)
+            } : g)
+          };
+        }
+
+        isFirstVariant = true;
         const generation: Generation = {
-          id: generateId(),
-          prompt: request.prompt,
-          parameters: {
-            aspectRatio: '1:1',
-            seed: request.seed,
-            temperature: request.temperature
-          },
-          sourceAssets: request.referenceImage ? [{
-            id: generateId(),
-            type: 'original',
-            url: `data:image/png;base64,${request.referenceImages[0]}`,
-            mime: 'image/png',
-            width: 1024,
-            height: 1024,
-            checksum: request.referenceImages[0].slice(0, 32)
-          }] : request.referenceImages ? request.referenceImages.map((img, index) => ({
-            id: generateId(),
-            type: 'original' as const,
-            url: `data:image/png;base64,${img}`,
-            mime: 'image/png',
-            width: 1024,
-            height: 1024,
-            checksum: img.slice(0, 32)
-          })) : [],
+          id: group.generationId,
+          prompt: group.prompt,
+          parameters: group.parameters,
+          sourceAssets,
           outputAssets,
-          modelVersion: 'gemini-2.5-flash-image-preview',
-          timestamp: Date.now()
+          modelVersion,
+          timestamp: Date.now(),
+          usage,
+          costEstimate,
+          variantCount: group.variantCount,
+          variantSeeds,
+          responseText: text
         };
+        return { ...project, generations: [...project.generations, generation] };
+      });
 
-        addGeneration(generation);
-        setCanvasImage(outputAssets[0].url);
-        
-        // Create project if none exists
-        if (!currentProject) {
-          const newProject = {
-            id: generateId(),
-            title: 'Untitled Project',
-            generations: [generation],
-            edits: [],
-            createdAt: Date.now(),
-            updatedAt: Date.now()
-          };
-          setCurrentProject(newProject);
-        }
-      }
-      setIsGenerating(false);
+      group.projectId ??= projectId;
+      if (isFirstVariant && isOpen) setCanvasAsset(outputAssets[0].id);
+      recordSpend(projectId, modelVersion, usage, costEstimate);
     },
-    onError: (error) => {
-      console.error('Generation failed:', error);
-      setIsGenerating(false);
+    onError: (error, { group, seed }) => {
+      if (!(error instanceof CancelledError)) console.error('Generation failed:', error);
+      notifyFailure('Generation', error, () => enqueueVariant(group, seed));
     }
   });
 
-  return {
-    generate: generateMutation.mutate,
-    isGenerating: generateMutation.isPending,
-    error: generateMutation.error
+  const enqueueVariant = (group: VariantGroup, seed: number) =>
+    enqueueBilledJob('generate', group.prompt, (jobId) =>
+      generateMutation.mutateAsync({ group, seed, jobId })
+    );
+
+  // Queues one request per variant; settings are captured now so later changes don't affect them
+  const generate = (request: GenerationRequest) => {
+    const { aspectRatio, variantCount } = useAppStore.getState();
+    const parameters = request.parameters ?? { ...getGenerationParameters(), aspectRatio };
+    const group: VariantGroup = {
+      generationId: generateId(),
+      projectId: useAppStore.getState().currentProject?.id ?? null,
+      prompt: request.prompt,
+      referenceImages: request.referenceImages,
+      parameters,
+      variantCount,
+      provider: getImageProvider()
+    };
+    // Once one variant is refused the rest would be too
+    createVariantSeeds(variantCount, parameters.seed).every(seed => enqueueVariant(group, seed));
   };
+
+  // Repeats the most recent generation with fresh random seeds
+  const reroll = async () => {
+    const { currentProject } = useAppStore.getState();
+    const generations = currentProject?.generations || [];
+    const last = generations[generations.length - 1];
+    if (!last) return;
+
+    const referenceImages = await Promise.all(last.sourceAssets.map(asset => AssetService.getBase64(asset.id)));
+    if (referenceImages.some(image => image === null)) {
+      useNotificationStore.getState().notify({
+        type: 'error',
+        title: 'Re-roll failed',
+        message: 'The reference images of the last generation are no longer stored.'
+      });
+      return;
+    }
+
+    const variantCount = last.variantCount || 1;
+    const group: VariantGroup = {
+      generationId: generateId(),
+      projectId: currentProject?.id ?? null,
+      prompt: last.prompt,
+      referenceImages: referenceImages.length > 0 ? referenceImages as string[] : undefined,
+      parameters: { ...last.parameters, seed: undefined },
+      variantCount,
+      provider: getImageProvider(),
+      sourceAssets: Promise.resolve(last.sourceAssets)
+    };
+    createVariantSeeds(variantCount).every(seed => enqueueVariant(group, seed));
+  };
+
+  return { generate, reroll };
 };
 
 export const useImageEditing = () => {
-  const { 
-    addEdit, 
-    setIsGenerating, 
-    setCanvasImage, 
-    canvasImage, 
-    editReferenceImages,
-    brushStrokes,
-    selectedGenerationId,
-    currentProject,
-    seed,
-    temperature 
-  } = useAppStore();
+  const { setCanvasAsset } = useAppStore();
 
   const editMutation = useMutation({
-    mutationFn: async (instruction: string) => {
-      // Always use canvas image as primary target if available, otherwise use first uploaded image
-      const sourceImage = canvasImage || uploadedImages[0];
-      if (!sourceImage) throw new Error('No image to edit');
-      
-      // Convert canvas image to base64
-      const base64Image = sourceImage.includes('base64,') 
-        ? sourceImage.split('base64,')[1] 
-        : sourceImage;
+    mutationFn: ({ job, jobId }: { job: EditJob; jobId: string }) => withRetry(async () => {
+      const signal = getJobSignal(jobId);
+      throwIfCancelled(signal);
+      const { instruction, brushStrokes, selectedMask } = job;
+
+      const base64Image = await loadSourceImage(job.sourceAssetId, job.sourceImage);
+      if (!base64Image) throw new Error('No image to edit');
       
       // Get reference images for style guidance
-      let referenceImages = editReferenceImages
+      let referenceImages = job.referenceImages
         .filter(img => img.includes('base64,'))
         .map(img => img.split('base64,')[1]);
       
       let maskImage: string | undefined;
       let maskedReferenceImage: string | undefined;
       
-      // Create mask from brush strokes if any exist
-      if (brushStrokes.length > 0) {
+      // Create mask from the accepted selection and brush strokes, if any
+      if (brushStrokes.length > 0 || selectedMask) {
         // Create a temporary image to get actual dimensions
-        const tempImg = new Image();
-        tempImg.src = sourceImage;
-        await new Promise<void>((resolve) => {
-          tempImg.onload = () => resolve();
-        });
-        
-        // Create mask canvas with exact image dimensions
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d')!;
-        canvas.width = tempImg.width;
-        canvas.height = tempImg.height;
-        
-        // Fill with black (unmasked areas)
-        ctx.fillStyle = 'black';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Draw white strokes (masked areas)
-        ctx.strokeStyle = 'white';
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        
-        brushStrokes.forEach(stroke => {
-          if (stroke.points.length >= 4) {
-            ctx.lineWidth = stroke.brushSize;
-            ctx.beginPath();
-            ctx.moveTo(stroke.points[0], stroke.points[1]);
-            
-            for (let i = 2; i < stroke.points.length; i += 2) {
-              ctx.lineTo(stroke.points[i], stroke.points[i + 1]);
-            }
-            ctx.stroke();
-          }
-        });
-        
-        // Convert mask to base64
-        const maskDataUrl = canvas.toDataURL('image/png');
-        maskImage = maskDataUrl.split('base64,')[1];
+        const tempImg = await createImageFromBase64(base64Image);
+        const selection = drawSelection(tempImg.width, tempImg.height, selectedMask, brushStrokes);
+        maskImage = toMaskImage(selection);
         
         // Create masked reference image (original image with mask overlay)
         const maskedCanvas = document.createElement('canvas');
         const maskedCtx = maskedCanvas.getContext('2d')!;
         maskedCanvas.width = tempImg.width;
         maskedCanvas.height = tempImg.height;
-        
-        // Draw original image
         maskedCtx.drawImage(tempImg, 0, 0);
         
-        // Draw mask overlay with transparency
-        maskedCtx.globalCompositeOperation = 'source-over';
+        // Tint the selection and lay it over the image with transparency
+        const selectionCtx = selection.getContext('2d')!;
+        selectionCtx.globalCompositeOperation = 'source-in';
+        selectionCtx.fillStyle = '#A855F7';
+        selectionCtx.fillRect(0, 0, selection.width, selection.height);
         maskedCtx.globalAlpha = 0.4;
-       maskedCtx.fillStyle = '#A855F7';
-        
-        brushStrokes.forEach(stroke => {
-          if (stroke.points.length >= 4) {
-            maskedCtx.lineWidth = stroke.brushSize;
-           maskedCtx.strokeStyle = '#A855F7';
-            maskedCtx.lineCap = 'round';
-            maskedCtx.lineJoin = 'round';
-            maskedCtx.beginPath();
-            maskedCtx.moveTo(stroke.points[0], stroke.points[1]);
-            
-            for (let i = 2; i < stroke.points.length; i += 2) {
-              maskedCtx.lineTo(stroke.points[i], stroke.points[i + 1]);
-            }
-            maskedCtx.stroke();
-          }
-        });
-        
+        maskedCtx.drawImage(selection, 0, 0);
         maskedCtx.globalAlpha = 1;
-        maskedCtx.globalCompositeOperation = 'source-over';
         
         const maskedDataUrl = maskedCanvas.toDataURL('image/png');
         maskedReferenceImage = maskedDataUrl.split('base64,')[1];
@@ -207,68 +523,244 @@ export const useImageEditing = () => {
         originalImage: base64Image,
         referenceImages: referenceImages.length > 0 ? referenceImages : undefined,
         maskImage,
-        temperature,
-        seed
+        parameters: job.parameters
       };
       
-      const images = await geminiService.editImage(request);
-      return { images, maskedReferenceImage };
-    },
-    onMutate: () => {
-      setIsGenerating(true);
-    },
-    onSuccess: ({ images, maskedReferenceImage }, instruction) => {
-      if (images.length > 0) {
-        const outputAssets: Asset[] = images.map((base64, index) => ({
-          id: generateId(),
-          type: 'output',
-          url: `data:image/png;base64,${base64}`,
-          mime: 'image/png',
-          width: 1024,
-          height: 1024,
-          checksum: base64.slice(0, 32)
-        }));
-
-        // Create mask reference asset if we have one
-        const maskReferenceAsset: Asset | undefined = maskedReferenceImage ? {
-          id: generateId(),
-          type: 'mask',
-          url: `data:image/png;base64,${maskedReferenceImage}`,
-          mime: 'image/png',
-          width: 1024,
-          height: 1024,
-          checksum: maskedReferenceImage.slice(0, 32)
-        } : undefined;
-
-        const edit: Edit = {
+      const { images, text, usage } = await job.provider.editImage(request, { signal, onProgress: trackProgress(jobId) });
+      throwIfCancelled(signal);
+      
+      const outputAssets = await Promise.all(
+        images.map(base64 => AssetService.createFromBase64(base64, 'output'))
+      );
+      const maskReferenceAsset = maskedReferenceImage
+        ? await AssetService.createFromBase64(maskedReferenceImage, 'mask')
+        : undefined;
+      const maskAsset = maskImage ? await storeMaskImage(maskImage, job) : undefined;
+      
+      return { outputAssets, maskAsset, maskReferenceAsset, parameters: request.parameters, text, usage };
+    }, getJobSignal(jobId)),
+    onSuccess: async ({ outputAssets, maskAsset, maskReferenceAsset, parameters, text, usage }, { job }) => {
+      if (outputAssets.length === 0) return;
+      const costEstimate = estimateCost(job.provider.modelVersion, usage);
+      const edit: Edit = {
+        id: generateId(),
+        parentGenerationId: job.parentGenerationId,
+        maskAssetId: maskAsset?.id,
+        maskReferenceAsset,
+        instruction: job.instruction,
+        parameters,
+        outputAssets,
+        timestamp: Date.now(),
+        responseText: text,
+        usage,
+        costEstimate
+      };
+
+      // Every edit mask is saved, named after the instruction; editing the same
+      // area of the same image again reuses the mask already saved for it
+      const unusedAssets: Asset[] = [];
+      const { projectId, isOpen } = await updateJobProject(job.projectId, project => {
+        if (!maskAsset) return { ...project, edits: [...project.edits, edit] };
+
+        const existing = findSavedMask(project.masks, maskAsset.checksum, job.sourceAssetId);
+        // Saved by another edit while this one ran; the copy just stored is not needed
+        if (existing && existing.asset.id !== maskAsset.id) unusedAssets.push(maskAsset);
+        const savedMask: SavedMask = existing ?? {
           id: generateId(),
-          parentGenerationId: selectedGenerationId || (currentProject?.generations[currentProject.generations.length - 1]?.id || ''),
-          maskAssetId: brushStrokes.length > 0 ? generateId() : undefined,
-          maskReferenceAsset,
-          instruction,
-          outputAssets,
-          timestamp: Date.now()
+          name: nameMask(job.selectedMask?.label || job.instruction),
+          asset: maskAsset,
+          sourceAssetId: job.sourceAssetId,
+          timestamp: Date.now(),
+          updatedAt: Date.now()
+        };
+        return {
+          ...project,
+          edits: [...project.edits, { ...edit, maskAssetId: savedMask.asset.id }],
+          masks: existing ? project.masks : [...(project.masks || []), savedMask]
         };
+      });
 
-        addEdit(edit);
-        
-        // Automatically load the edited image in the canvas
+      unusedAssets.forEach(asset => CacheService.deleteAsset(asset.id).catch(error => {
+        console.error('Failed to delete unused mask:', error);
+      }));
+
+      // Automatically load the edited image in the canvas
+      if (isOpen) {
         const { selectEdit, selectGeneration } = useAppStore.getState();
-        setCanvasImage(outputAssets[0].url);
+        setCanvasAsset(outputAssets[0].id);
         selectEdit(edit.id);
         selectGeneration(null);
       }
-      setIsGenerating(false);
+      recordSpend(projectId, job.provider.modelVersion, usage, costEstimate);
     },
-    onError: (error) => {
-      console.error('Edit failed:', error);
-      setIsGenerating(false);
+    onError: (error, { job }) => {
+      if (!(error instanceof CancelledError)) console.error('Edit failed:', error);
+      notifyFailure('Edit', error, () => enqueueEdit(job));
     }
   });
 
-  return {
-    edit: editMutation.mutate,
-    isEditing: editMutation.isPending,
-    error: editMutation.error
+  const enqueueEdit = (job: EditJob) => {
+    enqueueBilledJob('edit', job.instruction, (jobId) =>
+      editMutation.mutateAsync({ job, jobId })
+    );
   };
-};
\ No newline at end of file
+
+  const edit = (instruction: string) => {
+    const {
+      canvasAssetId,
+      canvasImage,
+      uploadedImages,
+      editReferenceImages,
+      brushStrokes,
+      selectedMask,
+      selectedGenerationId,
+      currentProject
+    } = useAppStore.getState();
+
+    enqueueEdit({
+      instruction,
+      projectId: currentProject?.id ?? null,
+      // Always use canvas image as primary target if available, otherwise use first uploaded image
+      sourceAssetId: canvasAssetId,
+      sourceImage: canvasImage || uploadedImages[0] || null,
+      referenceImages: editReferenceImages,
+      brushStrokes,
+      selectedMask,
+      parentGenerationId: selectedGenerationId || (currentProject?.generations[currentProject.generations.length - 1]?.id || ''),
+      parameters: getGenerationParameters(),
+      provider: getImageProvider()
+    });
+  };
+
+  return { edit };
+};
+
+// A text query such as "the red car", captured against the image it was asked about
+interface SelectionJob {
+  query: string;
+  projectId: string | null;
+  sourceAssetId: string | null;
+  sourceImage: string | null;
+  provider: ImageProvider;
+}
+
+// Selection by description: the masks found become candidates on the canvas
+// until the user accepts some of them as the edit mask
+export const useTextSelection = () => {
+  const { setMaskCandidates } = useAppStore();
+
+  const selectMutation = useMutation({
+    mutationFn: ({ job, jobId }: { job: SelectionJob; jobId: string }) => withRetry(async () => {
+      const signal = getJobSignal(jobId);
+      throwIfCancelled(signal);
+
+      const base64Image = await loadSourceImage(job.sourceAssetId, job.sourceImage);
+      if (!base64Image) throw new Error('No image to select from');
+
+      const result = await SegmentationService.segment(job.provider, base64Image, job.query, { signal });
+      throwIfCancelled(signal);
+      return result;
+    }, getJobSignal(jobId)),
+    onSuccess: ({ masks, usage }, { job }) => {
+      recordSpend(job.projectId, job.provider.modelVersion, usage, estimateCost(job.provider.modelVersion, usage));
+
+      const { canvasAssetId, canvasImage } = useAppStore.getState();
+      // The canvas moved on while the request ran; these masks belong to another image
+      if (canvasAssetId !== job.sourceAssetId || (!canvasAssetId && canvasImage !== job.sourceImage)) return;
+
+      if (masks.length === 0) {
+        useNotificationStore.getState().notify({ type: 'info', title: `Nothing found for "${job.query}"` });
+        return;
+      }
+      setMaskCandidates(masks);
+    },
+    onError: (error, { job }) => {
+      if (!(error instanceof CancelledError)) console.error('Selection failed:', error);
+      notifyFailure('Selection', error, () => enqueueSelection(job));
+    }
+  });
+
+  const enqueueSelection = (job: SelectionJob) => {
+    enqueueBilledJob('select', job.query, (jobId) =>
+      selectMutation.mutateAsync({ job, jobId })
+    );
+  };
+
+  const selectByText = (query: string) => {
+    const { canvasAssetId, canvasImage, currentProject } = useAppStore.getState();
+    enqueueSelection({
+      query,
+      projectId: currentProject?.id ?? null,
+      sourceAssetId: canvasAssetId,
+      sourceImage: canvasAssetId ? null : canvasImage,
+      provider: getImageProvider()
+    });
+  };
+
+  return { selectByText };
+};
+
+// Saving the current selection under a name, and bringing a saved mask back
+// as the selection on the image it was made on
+export const useSavedMasks = () => {
+  const { addSavedMask, setCanvasAsset, setSelectedMask, setMaskCandidates, clearBrushStrokes, setSelectedTool } = useAppStore();
+  const { notify } = useNotificationStore();
+
+  const storeSelection = async (name: string) => {
+    const { canvasAssetId, canvasImage, selectedMask, brushStrokes } = useAppStore.getState();
+    const base64Image = await loadSourceImage(canvasAssetId, canvasImage);
+    if (!base64Image || (!selectedMask && brushStrokes.length === 0)) return;
+
+    const image = await createImageFromBase64(base64Image);
+    const selection = drawSelection(image.width, image.height, selectedMask, brushStrokes);
+    const asset = await AssetService.createFromBase64(toMaskImage(selection), 'mask');
+    addSavedMask({
+      id: generateId(),
+      name: nameMask(name.trim() || selectedMask?.label || 'Untitled mask'),
+      asset,
+      sourceAssetId: canvasAssetId,
+      timestamp: Date.now(),
+      updatedAt: Date.now()
+    });
+    notify({ type: 'success', title: 'Mask saved' });
+  };
+
+  const restoreMask = async (savedMask: SavedMask) => {
+    const targetAssetId = savedMask.sourceAssetId ?? useAppStore.getState().canvasAssetId;
+    const [base64Image, base64Mask] = await Promise.all([
+      loadSourceImage(targetAssetId, targetAssetId ? null : useAppStore.getState().canvasImage),
+      AssetService.getBase64(savedMask.asset.id)
+    ]);
+    if (!base64Image || !base64Mask) {
+      notify({
+        type: 'error',
+        title: 'Could not use mask',
+        message: base64Mask ? 'The image it was made on is no longer stored.' : 'The mask is no longer stored.'
+      });
+      return;
+    }
+
+    const [image, maskImage] = await Promise.all([createImageFromBase64(base64Image), createImageFromBase64(base64Mask)]);
+    const mask = ImageProcessor.fromMaskImage(maskImage, image.width, image.height, savedMask.name);
+    if (!mask) return;
+
+    if (targetAssetId && targetAssetId !== useAppStore.getState().canvasAssetId) setCanvasAsset(targetAssetId);
+    // The saved mask already includes any strokes that were part of it
+    clearBrushStrokes();
+    setMaskCandidates([]);
+    setSelectedMask(mask);
+    if (useAppStore.getState().selectedTool === 'generate') setSelectedTool('edit');
+  };
+
+  // Called straight from buttons, so failures end here as a notification
+  const notifyMaskFailure = (title: string) => (error: Error) => {
+    console.error(`${title}:`, error);
+    notify({ type: 'error', title, message: error.message });
+  };
+
+  const saveSelection = (name: string) => storeSelection(name).catch(notifyMaskFailure('Could not save mask'));
+
+  const applySavedMask = (savedMask: SavedMask) => restoreMask(savedMask).catch(notifyMaskFailure('Could not use mask'));
+
+  return { saveSelection, applySavedMask };
+};
@@ -1,5 +1,6 @@
 import { useEffect } from 'react';
 import { useAppStore } from '../store/useAppStore';
+import { useImageGeneration } from './useImageGeneration';
 
 export const useKeyboardShortcuts = () => {
   const {
@@ -9,8 +10,10 @@ export const useKeyboardShortcuts = () => {
     setShowPromptPanel,
     showPromptPanel,
     currentPrompt,
-    isGenerating
+    undoBrushStroke,
+    redoBrushStroke
   } = useAppStore();
+  const { reroll } = useImageGeneration();
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -20,7 +23,7 @@ export const useKeyboardShortcuts = () => {
         // Only handle Cmd/Ctrl + Enter for generation
         if ((event.metaKey || event.ctrlKey) && event.key === 'Enter') {
           event.preventDefault();
-          if (!isGenerating && currentPrompt.trim()) {
+          if (currentPrompt.trim()) {
             console.log('Generate via keyboard shortcut');
           }
         }
@@ -28,6 +31,13 @@ export const useKeyboardShortcuts = () => {
       }
 
       switch (event.key.toLowerCase()) {
+        case 'z':
+          if (event.metaKey || event.ctrlKey) {
+            event.preventDefault();
+            if (event.shiftKey) redoBrushStroke();
+            else undoBrushStroke();
+          }
+          break;
         case 'e':
           event.preventDefault();
           setSelectedTool('edit');
@@ -51,7 +61,7 @@ export const useKeyboardShortcuts = () => {
         case 'r':
           if (event.shiftKey) {
             event.preventDefault();
-            console.log('Re-roll variants');
+            reroll();
           }
           break;
       }
@@ -59,5 +69,5 @@ export const useKeyboardShortcuts = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [setSelectedTool, setShowHistory, showHistory, setShowPromptPanel, showPromptPanel, currentPrompt, isGenerating]);
+  }, [setSelectedTool, setShowHistory, showHistory, setShowPromptPanel, showPromptPanel, currentPrompt, reroll, undoBrushStroke, redoBrushStroke]);
 };
\ No newline at end of file
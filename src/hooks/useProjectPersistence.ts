@@ -0,0 +1,135 @@
+import { useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { CacheService } from '../services/cacheService';
+import { SessionState } from '../types';
+
+const AUTOSAVE_DELAY = 500; // ms
+
+const getSessionState = (): SessionState => {
+  const state = useAppStore.getState();
+  return {
+    projectId: state.currentProject?.id || null,
+    canvasImage: state.canvasImage,
+    canvasAssetId: state.canvasAssetId,
+    selectedGenerationId: state.selectedGenerationId,
+    selectedEditId: state.selectedEditId,
+    currentPrompt: state.currentPrompt,
+    savedAt: Date.now()
+  };
+};
+
+export const useProjectPersistence = () => {
+  useEffect(() => {
+    let cancelled = false;
+    let restored = false;
+    let projectDirty = false;
+    let sessionDirty = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (!restored) return;
+
+      const { currentProject } = useAppStore.getState();
+      if (projectDirty && currentProject) {
+        CacheService.saveProject(currentProject).catch(error => {
+          console.error('Failed to autosave project:', error);
+        });
+      }
+      if (sessionDirty) {
+        CacheService.saveSession(getSessionState()).catch(error => {
+          console.error('Failed to autosave session:', error);
+        });
+      }
+      projectDirty = false;
+      sessionDirty = false;
+    };
+
+    const scheduleSave = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, AUTOSAVE_DELAY);
+    };
+
+    const unsubscribe = useAppStore.subscribe((state, prev) => {
+      if (!restored) return;
+
+      if (state.currentProject !== prev.currentProject) {
+        // Switching projects: write out pending changes to the one being left
+        if (projectDirty && prev.currentProject && state.currentProject?.id !== prev.currentProject.id) {
+          CacheService.saveProject(prev.currentProject).catch(error => {
+            console.error('Failed to autosave project:', error);
+          });
+        }
+        projectDirty = true;
+        sessionDirty = true;
+      }
+      if (
+        state.canvasImage !== prev.canvasImage ||
+        state.canvasAssetId !== prev.canvasAssetId ||
+        state.selectedGenerationId !== prev.selectedGenerationId ||
+        state.selectedEditId !== prev.selectedEditId ||
+        state.currentPrompt !== prev.currentPrompt
+      ) {
+        sessionDirty = true;
+      }
+      if (projectDirty || sessionDirty) {
+        scheduleSave();
+      }
+    });
+
+    // Restore the last open project and canvas before autosave kicks in
+    const restore = async () => {
+      try {
+        const session = await CacheService.getSession();
+        const project = (session?.projectId && await CacheService.getProject(session.projectId))
+          || await CacheService.getLatestProject();
+        if (cancelled) return;
+
+        const state = useAppStore.getState();
+        // Don't clobber anything the user started before the restore finished
+        if (!state.currentProject && project) {
+          state.setCurrentProject(project);
+        } else if (state.currentProject) {
+          projectDirty = true;
+          sessionDirty = true;
+        }
+        if (session && (!project || session.projectId === project.id)) {
+          if (!state.canvasImage && !state.canvasAssetId) {
+            if (session.canvasAssetId) state.setCanvasAsset(session.canvasAssetId);
+            else if (session.canvasImage) state.setCanvasImage(session.canvasImage);
+          }
+          if (!state.selectedGenerationId) state.selectGeneration(session.selectedGenerationId);
+          if (!state.selectedEditId) state.selectEdit(session.selectedEditId);
+          if (!state.currentPrompt) state.setCurrentPrompt(session.currentPrompt);
+        }
+      } catch (error) {
+        console.error('Failed to restore project:', error);
+      } finally {
+        if (!cancelled) {
+          restored = true;
+          if (projectDirty || sessionDirty) scheduleSave();
+        }
+      }
+    };
+
+    restore();
+
+    // Save immediately when the page is being hidden or unloaded
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      flush();
+      unsubscribe();
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+};
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useNotificationStore } from '../store/useNotificationStore';
+import { StorageService } from '../services/storageService';
+import { formatBytes } from '../utils/formatUtils';
+
+const CHECK_DELAY = 3000; // ms after the project last changed
+
+// Keeps storageLevel current and enforces the storage cap as projects grow
+export const useStorageMonitor = () => {
+  const currentProject = useAppStore((state) => state.currentProject);
+  const setStorageLevel = useAppStore((state) => state.setStorageLevel);
+  const storageCapBytes = useSettingsStore((state) => state.storageCapBytes);
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      try {
+        if (storageCapBytes !== null) {
+          const { evictedCount, freedBytes } = await StorageService.evict(
+            storageCapBytes,
+            currentProject,
+            useAppStore.getState().otherTabProjectIds
+          );
+          if (evictedCount > 0) {
+            useNotificationStore.getState().notify({
+              type: 'info',
+              title: 'Storage cap reached',
+              message: `Removed ${evictedCount} older image${evictedCount !== 1 ? 's' : ''}, freeing ${formatBytes(freedBytes)}.`
+            });
+          }
+        }
+
+        const { usage, quota } = await StorageService.estimate();
+        setStorageLevel(StorageService.getQuotaLevel(usage, quota));
+      } catch (error) {
+        console.error('Failed to check storage:', error);
+      }
+    }, CHECK_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [currentProject, storageCapBytes, setStorageLevel]);
+};
@@ -0,0 +1,116 @@
+import { useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { tabSyncService } from '../services/tabSyncService';
+import { CacheService } from '../services/cacheService';
+import { mergeProjects } from '../utils/projectUtils';
+import { Project } from '../types';
+
+const HEARTBEAT_INTERVAL = 5000; // ms
+const PRESENCE_TIMEOUT = 12000; // ms without a heartbeat before a tab is considered gone
+
+// Variants finish into existing generations, so counting those alone misses them
+const countOutputs = (project: Project): number =>
+  project.generations.reduce((total, generation) => total + generation.outputAssets.length, 0);
+
+// Propagates project changes to other tabs showing the same project and
+// tracks which projects other tabs have open
+export const useTabSync = () => {
+  useEffect(() => {
+    const otherTabs = new Map<string, { projectId: string | null; seenAt: number }>();
+    let applyingRemote = false;
+
+    const updateSharedTabs = () => {
+      const projectId = useAppStore.getState().currentProject?.id;
+      const now = Date.now();
+      let count = 0;
+      const openProjectIds = new Set<string>();
+      otherTabs.forEach((tab, tabId) => {
+        if (now - tab.seenAt > PRESENCE_TIMEOUT) {
+          otherTabs.delete(tabId);
+          return;
+        }
+        if (tab.projectId) openProjectIds.add(tab.projectId);
+        if (projectId && tab.projectId === projectId) count++;
+      });
+
+      const { sharedProjectTabs, otherTabProjectIds, setSharedProjectTabs, setOtherTabProjectIds } = useAppStore.getState();
+      if (sharedProjectTabs !== count) {
+        setSharedProjectTabs(count);
+      }
+      if (otherTabProjectIds.length !== openProjectIds.size || otherTabProjectIds.some(id => !openProjectIds.has(id))) {
+        setOtherTabProjectIds([...openProjectIds]);
+      }
+    };
+
+    const unsubscribeChannel = tabSyncService.subscribe((message) => {
+      switch (message.type) {
+        case 'project-updated': {
+          const { currentProject, setCurrentProject } = useAppStore.getState();
+          if (currentProject?.id !== message.project.id) return;
+
+          const merged = mergeProjects(currentProject, message.project);
+          applyingRemote = true;
+          setCurrentProject(merged);
+          applyingRemote = false;
+
+          // Send back anything only this tab had so both sides converge
+          if (
+            merged.generations.length > message.project.generations.length ||
+            merged.edits.length > message.project.edits.length ||
+            countOutputs(merged) > countOutputs(message.project)
+          ) {
+            tabSyncService.publishProject(merged);
+          }
+          break;
+        }
+        case 'project-deleted': {
+          CacheService.markProjectDeleted(message.projectId);
+          const { currentProject, switchProject } = useAppStore.getState();
+          if (currentProject?.id === message.projectId) switchProject(null);
+          break;
+        }
+        case 'presence':
+          if (!otherTabs.has(message.tabId) && !message.reply) {
+            // Answer newcomers straight away so they don't wait for our next heartbeat
+            tabSyncService.announcePresence(useAppStore.getState().currentProject?.id || null, true);
+          }
+          otherTabs.set(message.tabId, { projectId: message.projectId, seenAt: Date.now() });
+          updateSharedTabs();
+          break;
+        case 'leave':
+          otherTabs.delete(message.tabId);
+          updateSharedTabs();
+          break;
+      }
+    });
+
+    const unsubscribeStore = useAppStore.subscribe((state, prev) => {
+      if (state.currentProject === prev.currentProject) return;
+
+      if (state.currentProject?.id !== prev.currentProject?.id) {
+        tabSyncService.announcePresence(state.currentProject?.id || null);
+        updateSharedTabs();
+      }
+      if (!applyingRemote && state.currentProject && state.currentProject.id === prev.currentProject?.id) {
+        tabSyncService.publishProject(state.currentProject);
+      }
+    });
+
+    tabSyncService.announcePresence(useAppStore.getState().currentProject?.id || null);
+    const heartbeat = setInterval(() => {
+      tabSyncService.announcePresence(useAppStore.getState().currentProject?.id || null);
+      updateSharedTabs();
+    }, HEARTBEAT_INTERVAL);
+
+    const handlePageHide = () => tabSyncService.announceLeave();
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      unsubscribeChannel();
+      unsubscribeStore();
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', handlePageHide);
+      tabSyncService.announceLeave();
+    };
+  }, []);
+};
@@ -0,0 +1,106 @@
+import { CacheService } from './cacheService';
+import { Asset } from '../types';
+import { generateId, base64ToBlob, blobToBase64, readImageInfo } from '../utils/imageUtils';
+
+interface ObjectUrlEntry {
+  url: string;
+  refs: number;
+}
+
+// Image bytes live in IndexedDB as Blobs; projects only carry Asset metadata.
+// Object URLs are created on demand and revoked once nothing holds them.
+export class AssetService {
+  private static objectUrls = new Map<string, ObjectUrlEntry>();
+  private static pendingUrls = new Map<string, Promise<string | null>>();
+
+  static async createFromBlob(blob: Blob, type: Asset['type']): Promise<Asset> {
+    const { mime, width, height } = await readImageInfo(blob);
+    const typed = blob.type === mime ? blob : new Blob([blob], { type: mime });
+    const asset: Asset = {
+      id: generateId(),
+      type,
+      mime,
+      width,
+      height,
+      size: blob.size,
+      checksum: await this.computeChecksum(blob)
+    };
+
+    await CacheService.cacheAsset(asset, typed);
+    return asset;
+  }
+
+  static async createFromBase64(base64: string, type: Asset['type'], mime: string = 'image/png'): Promise<Asset> {
+    return this.createFromBlob(base64ToBlob(base64, mime), type);
+  }
+
+  static async createFromDataUrl(dataUrl: string, type: Asset['type']): Promise<Asset> {
+    const [header, base64] = dataUrl.split('base64,');
+    const mime = header.match(/^data:([^;]+);/)?.[1] || 'image/png';
+    return this.createFromBase64(base64, type, mime);
+  }
+
+  // The checksum an asset made from these bytes would get, without storing them
+  static async getChecksum(base64: string, mime: string = 'image/png'): Promise<string> {
+    return this.computeChecksum(base64ToBlob(base64, mime));
+  }
+
+  static async getBlobChecksum(blob: Blob): Promise<string> {
+    return this.computeChecksum(blob);
+  }
+
+  static async getBlob(assetId: string): Promise<Blob | null> {
+    const cached = await CacheService.getCachedAsset(assetId);
+    return cached?.data || null;
+  }
+
+  static async getBase64(assetId: string): Promise<string | null> {
+    const blob = await this.getBlob(assetId);
+    return blob ? blobToBase64(blob) : null;
+  }
+
+  // Every acquireUrl must be balanced by a releaseUrl
+  static async acquireUrl(assetId: string): Promise<string | null> {
+    const entry = this.objectUrls.get(assetId);
+    if (entry) {
+      entry.refs++;
+      return entry.url;
+    }
+
+    let pending = this.pendingUrls.get(assetId);
+    if (!pending) {
+      // A failed read must not stay pending, or every later acquire would reuse it
+      pending = this.getBlob(assetId).then(blob => {
+        if (!blob) return null;
+        CacheService.touchAsset(assetId).catch(() => {});
+        const url = URL.createObjectURL(blob);
+        this.objectUrls.set(assetId, { url, refs: 0 });
+        return url;
+      }).finally(() => this.pendingUrls.delete(assetId));
+      this.pendingUrls.set(assetId, pending);
+    }
+
+    const url = await pending;
+    const created = this.objectUrls.get(assetId);
+    if (created) created.refs++;
+    return url;
+  }
+
+  static releaseUrl(assetId: string): void {
+    const entry = this.objectUrls.get(assetId);
+    if (!entry) return;
+
+    entry.refs--;
+    if (entry.refs <= 0) {
+      URL.revokeObjectURL(entry.url);
+      this.objectUrls.delete(assetId);
+    }
+  }
+
+  private static async computeChecksum(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
@@ -1,39 +1,212 @@
 import { get, set, del, keys } from 'idb-keyval';
-import { Project, Generation, Asset } from '../types';
+import { Project, Generation, Asset, SessionState } from '../types';
+import { getProjectAssetIds } from '../utils/projectUtils';
+import {
+  SCHEMA_VERSION,
+  UNVERSIONED_SCHEMA,
+  RecordType,
+  MigrationContext,
+  MigrationError,
+  migrateRecord
+} from './migrations';
 
 const CACHE_PREFIX = 'nano-banana';
-const CACHE_VERSION = '1.0';
+// Keys used to embed the app version; records under them are migrated on load
+const LEGACY_PREFIX = `${CACHE_PREFIX}-1.0`;
+
+interface StoredRecord<T> {
+  schemaVersion: number;
+  record: T;
+}
+
+interface CachedAsset {
+  asset: Asset;
+  data: Blob;
+  cachedAt: number;
+}
+
+export interface CachedAssetInfo {
+  asset: Asset;
+  size: number;
+  cachedAt: number;
+  lastAccessedAt: number;
+}
+
+export interface MigrationFailure {
+  key: string;
+  type: RecordType;
+  fromVersion: number;
+  error: string;
+}
 
 export class CacheService {
-  private static getKey(type: string, id: string): string {
-    return `${CACHE_PREFIX}-${CACHE_VERSION}-${type}-${id}`;
+  private static migrationFailures = new Map<string, MigrationFailure>();
+  // Deleted this session, here or in another tab
+  private static deletedProjectIds = new Set<string>();
+
+  private static getKey(type: RecordType, id: string): string {
+    return `${CACHE_PREFIX}-${type}-${id}`;
+  }
+
+  private static getLegacyKey(type: RecordType, id: string): string {
+    return `${LEGACY_PREFIX}-${type}-${id}`;
+  }
+
+  private static isStoredRecord(value: unknown): value is StoredRecord<unknown> {
+    return typeof value === 'object' && value !== null &&
+      typeof (value as StoredRecord<unknown>).schemaVersion === 'number' &&
+      'record' in value;
+  }
+
+  private static async writeRecord<T>(type: RecordType, id: string, record: T): Promise<void> {
+    const stored: StoredRecord<T> = { schemaVersion: SCHEMA_VERSION, record };
+    await set(this.getKey(type, id), stored);
+  }
+
+  // Reads a record, upgrading it to the current schema if needed. Records that
+  // can't be upgraded are left untouched and reported via getMigrationFailures.
+  private static async readKey<T>(type: RecordType, id: string, key: string): Promise<T | null> {
+    const stored = await get(key);
+    if (!stored) return null;
+
+    const fromVersion = this.isStoredRecord(stored) ? stored.schemaVersion : UNVERSIONED_SCHEMA;
+    const record = this.isStoredRecord(stored) ? stored.record : stored;
+    if (fromVersion === SCHEMA_VERSION) return record as T;
+
+    try {
+      const migrated = await migrateRecord<T>(type, record, fromVersion, this.migrationContext);
+      await this.writeRecord(type, id, migrated);
+      if (key !== this.getKey(type, id)) await del(key);
+      this.migrationFailures.delete(key);
+      return migrated;
+    } catch (error) {
+      console.error(`Failed to migrate ${key}:`, error);
+      this.migrationFailures.set(key, {
+        key,
+        type,
+        fromVersion: error instanceof MigrationError ? error.fromVersion : fromVersion,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private static async readRecord<T>(type: RecordType, id: string): Promise<T | null> {
+    return (await this.readKey<T>(type, id, this.getKey(type, id)))
+      || (await this.readKey<T>(type, id, this.getLegacyKey(type, id)));
+  }
+
+  private static async deleteRecord(type: RecordType, id: string): Promise<void> {
+    await del(this.getKey(type, id));
+    await del(this.getLegacyKey(type, id));
+  }
+
+  // Ids of every stored record of a type, under current or legacy keys
+  private static async getRecordKeys(type: RecordType): Promise<Array<{ id: string; key: string }>> {
+    const prefixes = [`${CACHE_PREFIX}-${type}-`, `${LEGACY_PREFIX}-${type}-`];
+    const found = new Map<string, string>();
+
+    for (const key of await keys()) {
+      if (typeof key !== 'string') continue;
+      const prefix = prefixes.find(p => key.startsWith(p));
+      const id = prefix && key.slice(prefix.length);
+      // Prefer the current key if a record somehow exists under both
+      if (id && (!found.has(id) || prefix === prefixes[0])) {
+        found.set(id, key);
+      }
+    }
+    return [...found].map(([id, key]) => ({ id, key }));
+  }
+
+  private static migrationContext: MigrationContext = {
+    saveAsset: (asset, data) => CacheService.cacheAsset(asset, data),
+    getAssetData: async (assetId) => (await CacheService.getCachedAsset(assetId))?.data ?? null
+  };
+
+  // Records that could not be upgraded to the current schema
+  static getMigrationFailures(): MigrationFailure[] {
+    return [...this.migrationFailures.values()];
+  }
+
+  // Raw, unmigrated contents of a record so it can be saved for manual recovery
+  static async exportRawRecord(key: string): Promise<Blob | null> {
+    const stored = await get(key);
+    if (!stored) return null;
+
+    const record = this.isStoredRecord(stored) ? stored.record : stored;
+    if (record && typeof record === 'object' && 'data' in record && record.data instanceof Blob) {
+      return record.data;
+    }
+    return new Blob([JSON.stringify(stored, null, 2)], { type: 'application/json' });
   }
 
   // Project caching
   static async saveProject(project: Project): Promise<void> {
-    await set(this.getKey('project', project.id), project);
+    // An autosave still in flight must not bring a deleted project back
+    if (this.deletedProjectIds.has(project.id)) return;
+    await this.writeRecord('project', project.id, project);
   }
 
   static async getProject(id: string): Promise<Project | null> {
-    return (await get(this.getKey('project', id))) || null;
+    return this.readRecord<Project>('project', id);
+  }
+
+  // Also removes assets that no other project refers to (duplicates share assets)
+  static async deleteProject(id: string): Promise<void> {
+    this.markProjectDeleted(id);
+    const project = await this.getProject(id);
+    await this.deleteRecord('project', id);
+    if (!project) return;
+
+    const otherProjects = await this.getAllProjects();
+    const stillReferenced = new Set(otherProjects.flatMap(p => [...getProjectAssetIds(p)]));
+
+    for (const assetId of getProjectAssetIds(project)) {
+      if (!stillReferenced.has(assetId)) {
+        await this.deleteAsset(assetId);
+      }
+    }
+  }
+
+  // For projects deleted in another tab, whose copy here must no longer be saved
+  static markProjectDeleted(id: string): void {
+    this.deletedProjectIds.add(id);
+  }
+
+  static isProjectDeleted(id: string): boolean {
+    return this.deletedProjectIds.has(id);
   }
 
   static async getAllProjects(): Promise<Project[]> {
-    const allKeys = await keys();
-    const projectKeys = allKeys.filter(key => 
-      typeof key === 'string' && key.includes(`${CACHE_PREFIX}-${CACHE_VERSION}-project-`)
-    );
-    
+    const projectKeys = await this.getRecordKeys('project');
+
     const projects = await Promise.all(
-      projectKeys.map(key => get(key as string))
+      projectKeys.map(({ id, key }) => this.readKey<Project>('project', id, key))
     );
-    
+
     return projects.filter(Boolean) as Project[];
   }
 
+  static async getLatestProject(): Promise<Project | null> {
+    const projects = await this.getAllProjects();
+    if (projects.length === 0) return null;
+    return projects.reduce((latest, project) =>
+      project.updatedAt > latest.updatedAt ? project : latest
+    );
+  }
+
+  // Session caching (what was open when the app was last used)
+  static async saveSession(session: SessionState): Promise<void> {
+    await this.writeRecord('session', 'current', session);
+  }
+
+  static async getSession(): Promise<SessionState | null> {
+    return this.readRecord<SessionState>('session', 'current');
+  }
+
   // Asset caching (for offline access)
   static async cacheAsset(asset: Asset, data: Blob): Promise<void> {
-    await set(this.getKey('asset', asset.id), {
+    await this.writeRecord<CachedAsset>('asset', asset.id, {
       asset,
       data,
       cachedAt: Date.now()
@@ -41,31 +214,45 @@ export class CacheService {
   }
 
   static async getCachedAsset(assetId: string): Promise<{ asset: Asset; data: Blob } | null> {
-    const cached = await get(this.getKey('asset', assetId));
-    return cached || null;
+    return this.readRecord<CachedAsset>('asset', assetId);
+  }
+
+  static async deleteAsset(assetId: string): Promise<void> {
+    await this.deleteRecord('asset', assetId);
+    await this.deleteRecord('access', assetId);
+  }
+
+  // Access times live in their own small records so touching an asset
+  // doesn't rewrite its blob
+  static async touchAsset(assetId: string): Promise<void> {
+    await this.writeRecord('access', assetId, Date.now());
+  }
+
+  // Metadata for every stored asset, for usage accounting and eviction
+  static async getAllCachedAssets(): Promise<CachedAssetInfo[]> {
+    const assetKeys = await this.getRecordKeys('asset');
+
+    const assets = await Promise.all(assetKeys.map(async ({ id, key }) => {
+      const cached = await this.readKey<CachedAsset>('asset', id, key);
+      if (!cached) return null;
+      const lastAccessedAt = await this.readRecord<number>('access', id);
+      return {
+        asset: cached.asset,
+        size: cached.data.size,
+        cachedAt: cached.cachedAt,
+        lastAccessedAt: lastAccessedAt ?? cached.cachedAt
+      };
+    }));
+
+    return assets.filter(Boolean) as CachedAssetInfo[];
   }
 
   // Generation metadata caching
   static async cacheGeneration(generation: Generation): Promise<void> {
-    await set(this.getKey('generation', generation.id), generation);
+    await this.writeRecord('generation', generation.id, generation);
   }
 
   static async getGeneration(id: string): Promise<Generation | null> {
-    return (await get(this.getKey('generation', id))) || null;
-  }
-
-  // Clear old cache entries
-  static async clearOldCache(maxAge: number = 7 * 24 * 60 * 60 * 1000): Promise<void> {
-    const allKeys = await keys();
-    const now = Date.now();
-    
-    for (const key of allKeys) {
-      if (typeof key === 'string' && key.startsWith(CACHE_PREFIX)) {
-        const cached = await get(key);
-        if (cached?.cachedAt && (now - cached.cachedAt) > maxAge) {
-          await del(key);
-        }
-      }
-    }
+    return this.readRecord<Generation>('generation', id);
   }
-}
\ No newline at end of file
+}
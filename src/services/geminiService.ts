@@ -1,74 +1,131 @@
-import { GoogleGenAI } from '@google/genai';
+import { ApiError, Candidate, GoogleGenAI, GenerateContentConfig, GenerateContentResponse, Part } from '@google/genai';
+import {
+  ImageProvider,
+  GenerationRequest,
+  EditRequest,
+  SegmentationRequest,
+  DescribeRequest,
+  ImageResult,
+  SegmentationResponse,
+  RequestOptions
+} from './imageProvider';
+import { GenerationParameters, ResponseModality, TokenUsage } from '../types';
+import { ASPECT_RATIO_SIZES, detectBase64Mime } from '../utils/imageUtils';
+import { parseSegmentationResponse } from '../utils/segmentationUtils';
+import {
+  ImageProviderError,
+  RateLimitError,
+  SafetyBlockError,
+  InvalidInputError,
+  NetworkError,
+  EmptyResponseError,
+  CancelledError
+} from './imageErrors';
 
-// Note: In production, this should be handled via a backend proxy
-const API_KEY = import.meta.env.VITE_GEMINI_API_KEY || 'demo-key';
-const genAI = new GoogleGenAI({ apiKey: API_KEY });
+export const GEMINI_MODEL = 'gemini-2.5-flash-image-preview';
 
-export interface GenerationRequest {
-  prompt: string;
-  referenceImages?: string[]; // base64 array
-  temperature?: number;
-  seed?: number;
+// The image model needs IMAGE in its output; TEXT lets it explain itself alongside
+const DEFAULT_RESPONSE_MODALITIES: ResponseModality[] = ['IMAGE', 'TEXT'];
+
+// Finish reasons meaning the model refused rather than simply ran out of output
+const BLOCKING_FINISH_REASONS = new Set([
+  'SAFETY',
+  'RECITATION',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+]);
+
+// Thinking tokens are billed as output alongside the candidates themselves
+function toTokenUsage(metadata: GenerateContentResponse['usageMetadata']): TokenUsage | undefined {
+  if (!metadata) return undefined;
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  };
 }
 
-export interface EditRequest {
-  instruction: string;
-  originalImage: string; // base64
-  referenceImages?: string[]; // base64 array
-  maskImage?: string; // base64
-  temperature?: number;
-  seed?: number;
+// ApiError messages embed the JSON error body; pull out the human-readable part
+function getApiMessage(error: ApiError): string | undefined {
+  return error.message.match(/"message":\s*"((?:[^"\\]|\\.)*)"/)?.[1];
 }
 
-export interface SegmentationRequest {
-  image: string; // base64
-  query: string; // "the object at pixel (x,y)" or "the red car"
+// 429 bodies carry a RetryInfo detail such as "retryDelay": "27s"
+function getRetryDelay(error: ApiError): number | undefined {
+  const seconds = error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/)?.[1];
+  return seconds ? Number(seconds) * 1000 : undefined;
+}
+
+function toImageError(error: unknown, signal?: AbortSignal): ImageProviderError {
+  if (error instanceof ImageProviderError) return error;
+  if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+    return new CancelledError();
+  }
+
+  if (error instanceof ApiError) {
+    if (error.status === 429) {
+      return new RateLimitError('Rate limit or quota reached for the Gemini API.', getRetryDelay(error));
+    }
+    if (error.status === 401 || error.status === 403) {
+      return new InvalidInputError('The Gemini API key was rejected. Check your key and its permissions.');
+    }
+    if (error.status >= 400 && error.status < 500) {
+      return new InvalidInputError(getApiMessage(error) || 'The request was rejected as invalid.');
+    }
+    if (error.status >= 500) {
+      return new NetworkError('The Gemini API is temporarily unavailable.');
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof TypeError || /fetch failed|failed to fetch|network/i.test(message)) {
+    return new NetworkError('Could not reach the Gemini API. Check your connection.');
+  }
+  return new ImageProviderError(message || 'Unexpected error from the Gemini API.');
 }
 
-export class GeminiService {
-  async generateImage(request: GenerationRequest): Promise<string[]> {
+export class GeminiService implements ImageProvider {
+  readonly id = 'gemini';
+  readonly name = 'Gemini 2.5 Flash Image';
+  readonly modelVersion = GEMINI_MODEL;
+
+  private genAI: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.genAI = new GoogleGenAI({ apiKey });
+  }
+
+  async generateImage(request: GenerationRequest, options: RequestOptions = {}): Promise<ImageResult> {
     try {
-      const contents: any[] = [{ text: request.prompt }];
+      const contents: Part[] = [{ text: this.buildGenerationPrompt(request) }];
       
       // Add reference images if provided
       if (request.referenceImages && request.referenceImages.length > 0) {
         request.referenceImages.forEach(image => {
           contents.push({
             inlineData: {
-              mimeType: "image/png",
+              mimeType: detectBase64Mime(image),
               data: image,
             },
           });
         });
       }
 
-      const response = await genAI.models.generateContent({
-        model: "gemini-2.5-flash-image-preview",
-        contents,
-      });
-
-      const images: string[] = [];
-
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          images.push(part.inlineData.data);
-        }
-      }
-
-      return images;
+      return await this.requestImages(contents, request.parameters, options);
     } catch (error) {
-      console.error('Error generating image:', error);
-      throw new Error('Failed to generate image. Please try again.');
+      throw this.toFailure('Error generating image:', error, options.signal);
     }
   }
 
-  async editImage(request: EditRequest): Promise<string[]> {
+  async editImage(request: EditRequest, options: RequestOptions = {}): Promise<ImageResult> {
     try {
-      const contents = [
+      const contents: Part[] = [
         { text: this.buildEditPrompt(request) },
         {
           inlineData: {
-            mimeType: "image/png",
+            mimeType: detectBase64Mime(request.originalImage),
             data: request.originalImage,
           },
         },
@@ -79,7 +136,7 @@ export class GeminiService {
         request.referenceImages.forEach(image => {
           contents.push({
             inlineData: {
-              mimeType: "image/png",
+              mimeType: detectBase64Mime(image),
               data: image,
             },
           });
@@ -95,64 +152,186 @@ export class GeminiService {
         });
       }
 
-      const response = await genAI.models.generateContent({
-        model: "gemini-2.5-flash-image-preview",
-        contents,
-      });
-
-      const images: string[] = [];
-
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          images.push(part.inlineData.data);
-        }
-      }
-
-      return images;
+      return await this.requestImages(contents, request.parameters, options);
     } catch (error) {
-      console.error('Error editing image:', error);
-      throw new Error('Failed to edit image. Please try again.');
+      throw this.toFailure('Error editing image:', error, options.signal);
     }
   }
 
-  async segmentImage(request: SegmentationRequest): Promise<any> {
+  async segmentImage(request: SegmentationRequest, options: RequestOptions = {}): Promise<SegmentationResponse> {
     try {
       const prompt = [
-        { text: `Analyze this image and create a segmentation mask for: ${request.query}
-
-Return a JSON object with this exact structure:
-{
-  "masks": [
-    {
-      "label": "description of the segmented object",
-      "box_2d": [x, y, width, height],
-      "mask": "base64-encoded binary mask image"
-    }
-  ]
-}
+        { text: `Give the segmentation masks for: ${request.query}
+
+Output a JSON list of segmentation masks where each entry contains the 2D bounding box in the key "box_2d", the segmentation mask in key "mask", and the text label in the key "label". Use descriptive labels.
 
-Only segment the specific object or region requested. The mask should be a binary PNG where white pixels (255) indicate the selected region and black pixels (0) indicate the background.` },
+Only segment the specific object or region requested.` },
         {
           inlineData: {
-            mimeType: "image/png",
+            mimeType: detectBase64Mime(request.image),
             data: request.image,
           },
         },
       ];
 
-      const response = await genAI.models.generateContent({
-        model: "gemini-2.5-flash-image-preview",
+      const response = await this.genAI.models.generateContent({
+        model: GEMINI_MODEL,
         contents: prompt,
+        config: { abortSignal: options.signal },
       });
 
-      const responseText = response.candidates[0].content.parts[0].text;
-      return JSON.parse(responseText);
+      const regions = parseSegmentationResponse(response.text || '');
+      if (!regions) {
+        throw new EmptyResponseError('The model did not return a readable selection.', response.text);
+      }
+      return { regions, usage: toTokenUsage(response.usageMetadata) };
     } catch (error) {
-      console.error('Error segmenting image:', error);
-      throw new Error('Failed to segment image. Please try again.');
+      throw this.toFailure('Error segmenting image:', error, options.signal);
     }
   }
 
+  async describeImage(request: DescribeRequest, options: RequestOptions = {}): Promise<string> {
+    try {
+      const response = await this.genAI.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: [
+          { text: request.prompt || 'Describe this image in one or two sentences, covering the subject, setting and style.' },
+          {
+            inlineData: {
+              mimeType: detectBase64Mime(request.image),
+              data: request.image,
+            },
+          },
+        ],
+        config: { abortSignal: options.signal },
+      });
+
+      const text = response.text?.trim();
+      if (!text) throw new EmptyResponseError('The model returned an empty description.');
+      return text;
+    } catch (error) {
+      throw this.toFailure('Error describing image:', error, options.signal);
+    }
+  }
+
+  // Logs real failures (not cancellations) and converts them to typed errors
+  private toFailure(context: string, error: unknown, signal?: AbortSignal): ImageProviderError {
+    const imageError = toImageError(error, signal);
+    if (!(imageError instanceof CancelledError)) console.error(context, error);
+    return imageError;
+  }
+
+  private buildConfig(parameters: GenerationParameters = {}): GenerateContentConfig {
+    return {
+      temperature: parameters.temperature,
+      seed: parameters.seed,
+      topP: parameters.topP,
+      topK: parameters.topK,
+      candidateCount: parameters.candidateCount,
+      responseModalities: parameters.responseModalities ?? DEFAULT_RESPONSE_MODALITIES,
+    };
+  }
+
+  // Streams when the caller wants progress, reporting text and images as they arrive
+  private async requestImages(
+    contents: Part[],
+    parameters: GenerationParameters | undefined,
+    options: RequestOptions
+  ): Promise<ImageResult> {
+    const params = {
+      model: GEMINI_MODEL,
+      contents,
+      config: { ...this.buildConfig(parameters), abortSignal: options.signal },
+    };
+    const { onProgress } = options;
+    if (!onProgress) {
+      return this.extractResult(await this.genAI.models.generateContent(params));
+    }
+
+    // Chunks carry a few parts each; stitch them back into whole candidates
+    const candidates = new Map<number, Candidate & { content: { parts: Part[] } }>();
+    let promptFeedback: GenerateContentResponse['promptFeedback'];
+    let usageMetadata: GenerateContentResponse['usageMetadata'];
+
+    for await (const chunk of await this.genAI.models.generateContentStream(params)) {
+      promptFeedback ??= chunk.promptFeedback;
+      // Counts are cumulative, so the last chunk has the totals
+      usageMetadata = chunk.usageMetadata ?? usageMetadata;
+      (chunk.candidates || []).forEach((candidate, position) => {
+        const index = candidate.index ?? position;
+        const merged = candidates.get(index) ?? { index, content: { role: 'model', parts: [] } };
+        for (const part of candidate.content?.parts || []) {
+          merged.content.parts.push(part);
+          if (part.inlineData?.data) {
+            onProgress({ type: 'image' });
+          } else if (part.text && !part.thought) {
+            onProgress({ type: 'text', text: part.text });
+          }
+        }
+        merged.finishReason = candidate.finishReason ?? merged.finishReason;
+        candidates.set(index, merged);
+      });
+    }
+
+    const result = this.extractResult({ promptFeedback, usageMetadata, candidates: [...candidates.values()] });
+    onProgress({ type: 'complete' });
+    return result;
+  }
+
+  // With candidateCount > 1 every candidate contributes its images and text
+  private extractResult(
+    response: Pick<GenerateContentResponse, 'candidates' | 'promptFeedback' | 'usageMetadata'>
+  ): ImageResult {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new SafetyBlockError(`The prompt was blocked (${blockReason}). Try rephrasing it.`, blockReason);
+    }
+
+    const images: string[] = [];
+    const texts: string[] = [];
+
+    for (const candidate of response.candidates || []) {
+      const candidateText: string[] = [];
+      for (const part of candidate.content?.parts || []) {
+        if (part.inlineData?.data) {
+          images.push(part.inlineData.data);
+        } else if (part.text && !part.thought) {
+          candidateText.push(part.text);
+        }
+      }
+      const joined = candidateText.join('').trim();
+      if (joined) texts.push(joined);
+    }
+    const text = texts.join('\n\n') || undefined;
+
+    if (images.length === 0) {
+      const finishReason = response.candidates
+        ?.map(candidate => candidate.finishReason as string | undefined)
+        .find(reason => reason && BLOCKING_FINISH_REASONS.has(reason));
+      if (finishReason) {
+        throw new SafetyBlockError(`The model declined to create this image (${finishReason}). Try rephrasing the prompt.`, finishReason);
+      }
+
+      throw new EmptyResponseError(
+        text ? `The model replied without an image: "${text}"` : 'The model returned no image.',
+        text
+      );
+    }
+
+    return { images, text, usage: toTokenUsage(response.usageMetadata) };
+  }
+
+  // The model has no aspect ratio setting, so the shape is requested in the prompt
+  private buildGenerationPrompt(request: GenerationRequest): string {
+    const aspectRatio = request.parameters?.aspectRatio;
+    if (!aspectRatio || aspectRatio === '1:1') return request.prompt;
+
+    const { width, height } = ASPECT_RATIO_SIZES[aspectRatio];
+    return `${request.prompt}
+
+Output a ${aspectRatio} ${width > height ? 'landscape' : 'portrait'} image (${width}×${height} pixels).`;
+  }
+
   private buildEditPrompt(request: EditRequest): string {
     const maskInstruction = request.maskImage 
       ? "\n\nIMPORTANT: Apply changes ONLY where the mask image shows white pixels (value 255). Leave all other areas completely unchanged. Respect the mask boundaries precisely and maintain seamless blending at the edges."
@@ -165,5 +344,3 @@ Maintain the original image's lighting, perspective, and overall composition. Ma
 Preserve image quality and ensure the edit looks professional and realistic.`;
   }
 }
-
-export const geminiService = new GeminiService();
\ No newline at end of file
@@ -0,0 +1,172 @@
+export type ImageErrorKind =
+  | 'rate-limit'
+  | 'safety'
+  | 'invalid-input'
+  | 'network'
+  | 'empty-response'
+  | 'cancelled'
+  | 'unknown';
+
+// Base class for everything an ImageProvider can throw. `retryable` marks
+// transient failures that are worth retrying automatically.
+export class ImageProviderError extends Error {
+  readonly kind: ImageErrorKind = 'unknown';
+  readonly retryable: boolean = false;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageProviderError';
+  }
+}
+
+export class RateLimitError extends ImageProviderError {
+  readonly kind = 'rate-limit';
+  readonly retryable = true;
+
+  constructor(message: string, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SafetyBlockError extends ImageProviderError {
+  readonly kind = 'safety';
+
+  // The model's finishReason or the prompt's blockReason, e.g. "SAFETY"
+  constructor(message: string, public readonly finishReason?: string) {
+    super(message);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class InvalidInputError extends ImageProviderError {
+  readonly kind = 'invalid-input';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class NetworkError extends ImageProviderError {
+  readonly kind = 'network';
+  readonly retryable = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class EmptyResponseError extends ImageProviderError {
+  readonly kind = 'empty-response';
+  readonly retryable: boolean;
+
+  constructor(message: string, public readonly responseText?: string) {
+    super(message);
+    this.name = 'EmptyResponseError';
+    // A bare empty reply is usually a fluke worth another attempt, but a
+    // written reply (a refusal or a question) would only be repeated
+    this.retryable = !responseText;
+  }
+}
+
+// Not a failure: the user aborted the request
+export class CancelledError extends ImageProviderError {
+  readonly kind = 'cancelled';
+
+  constructor(message: string = 'The request was cancelled.') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new CancelledError();
+}
+
+// Plain-object form used to carry errors across the proxy boundary
+export interface SerializedImageError {
+  error: string;
+  kind: ImageErrorKind;
+  finishReason?: string;
+  retryAfterMs?: number;
+  responseText?: string;
+}
+
+export function serializeImageError(error: ImageProviderError): SerializedImageError {
+  return {
+    error: error.message,
+    kind: error.kind,
+    finishReason: error instanceof SafetyBlockError ? error.finishReason : undefined,
+    retryAfterMs: error instanceof RateLimitError ? error.retryAfterMs : undefined,
+    responseText: error instanceof EmptyResponseError ? error.responseText : undefined
+  };
+}
+
+export function deserializeImageError(payload: SerializedImageError): ImageProviderError {
+  switch (payload.kind) {
+    case 'rate-limit':
+      return new RateLimitError(payload.error, payload.retryAfterMs);
+    case 'safety':
+      return new SafetyBlockError(payload.error, payload.finishReason);
+    case 'invalid-input':
+      return new InvalidInputError(payload.error);
+    case 'network':
+      return new NetworkError(payload.error);
+    case 'empty-response':
+      return new EmptyResponseError(payload.error, payload.responseText);
+    case 'cancelled':
+      return new CancelledError(payload.error);
+    default:
+      return new ImageProviderError(payload.error);
+  }
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ImageProviderError && error.retryable;
+}
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+// Exponential backoff plus jitter, honouring a server-provided retry delay
+const getRetryDelay = (failureCount: number, error: Error): number => {
+  if (error instanceof RateLimitError && error.retryAfterMs) {
+    return Math.min(error.retryAfterMs, MAX_RETRY_DELAY);
+  }
+  const backoff = BASE_RETRY_DELAY * 2 ** failureCount;
+  return Math.min(backoff + Math.random() * BASE_RETRY_DELAY, MAX_RETRY_DELAY);
+};
+
+// Waits out a retry delay, rejecting with a CancelledError as soon as the signal aborts
+const waitForRetry = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs a request, retrying transient errors only. The wait between attempts
+// ends early when the job is cancelled, so a cancel takes effect at once.
+export async function withRetry<T>(attempt: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let failureCount = 0; ; failureCount++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (!isRetryableError(error) || failureCount >= MAX_RETRIES) throw error;
+      await waitForRetry(getRetryDelay(failureCount, error as Error), signal);
+    }
+  }
+}
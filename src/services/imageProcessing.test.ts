@@ -0,0 +1,93 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ImageProcessor } from './imageProcessing';
+import { SegmentationMask } from '../types';
+
+// Node has no ImageData; the morphology only needs its pixel buffer
+beforeAll(() => {
+  vi.stubGlobal('ImageData', class {
+    data: Uint8ClampedArray;
+    constructor(public width: number, public height: number) {
+      this.data = new Uint8ClampedArray(width * height * 4);
+    }
+  });
+});
+
+// Builds a mask from rows of '#' (selected) and '.' (not selected)
+const createMask = (rows: string[]): SegmentationMask => {
+  const width = rows[0].length;
+  const height = rows.length;
+  const imageData = new ImageData(width, height);
+  rows.forEach((row, y) => [...row].forEach((cell, x) => {
+    if (cell === '#') imageData.data.fill(255, (y * width + x) * 4, (y * width + x) * 4 + 4);
+  }));
+  return { id: 'mask', label: 'test', imageData, bounds: ImageProcessor.getMaskBounds(imageData)!, feather: 0 };
+};
+
+const toRows = (mask: SegmentationMask | null): string[] | null => {
+  if (!mask) return null;
+  const { width, height, data } = mask.imageData;
+  return Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => (data[(y * width + x) * 4 + 3] >= 128 ? '#' : '.')).join('')
+  );
+};
+
+describe('ImageProcessor mask morphology', () => {
+  it('measures the bounds of the selected pixels', () => {
+    expect(createMask(['.....', '..##.', '..#..', '.....']).bounds).toEqual({ x: 2, y: 1, width: 2, height: 2 });
+  });
+
+  it('grows the selection by the given radius', () => {
+    const grown = ImageProcessor.refineMask(createMask(['.....', '.....', '..#..', '.....', '.....']), { grow: 1, smooth: 0, feather: 0 });
+    expect(toRows(grown)).toEqual(['.....', '..#..', '.###.', '..#..', '.....']);
+  });
+
+  it('shrinks the selection by the given radius', () => {
+    const shrunk = ImageProcessor.refineMask(createMask(['.....', '.###.', '.###.', '.###.', '.....']), { grow: -1, smooth: 0, feather: 0 });
+    expect(toRows(shrunk)).toEqual(['.....', '.....', '..#..', '.....', '.....']);
+    expect(shrunk!.bounds).toEqual({ x: 2, y: 2, width: 1, height: 1 });
+  });
+
+  it('returns null when a refinement would select nothing', () => {
+    expect(ImageProcessor.refineMask(createMask(['...', '.#.', '...']), { grow: -1, smooth: 0, feather: 0 })).toBeNull();
+  });
+
+  it('keeps the feather on the refined mask and the rest of the mask as it was', () => {
+    const refined = ImageProcessor.refineMask(createMask(['...', '.#.', '...']), { grow: 0, smooth: 0, feather: 4 });
+    expect(refined).toMatchObject({ label: 'test', feather: 4 });
+    expect(refined!.id).not.toBe('mask');
+  });
+
+  it('inverts the selection', () => {
+    expect(toRows(ImageProcessor.invertMask(createMask(['#..', '.#.', '..#'])))).toEqual(['.##', '#.#', '##.']);
+    expect(ImageProcessor.invertMask(createMask(['##', '##']))).toBeNull();
+  });
+
+  it('fills holes enclosed by the selection', () => {
+    const filled = ImageProcessor.fillHoles(createMask([
+      '.......',
+      '.#####.',
+      '.#..##.',
+      '.#.###.',
+      '.#####.',
+      '.......'
+    ]));
+    expect(toRows(filled)).toEqual([
+      '.......',
+      '.#####.',
+      '.#####.',
+      '.#####.',
+      '.#####.',
+      '.......'
+    ]);
+  });
+
+  it('leaves gaps open to the image border unfilled', () => {
+    const rows = [
+      '#####',
+      '#...#',
+      '#....',
+      '#####'
+    ];
+    expect(toRows(ImageProcessor.fillHoles(createMask(rows)))).toEqual(rows);
+  });
+});
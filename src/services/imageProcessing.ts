@@ -1,83 +1,362 @@
 import { SegmentationMask } from '../types';
 import { generateId } from '../utils/imageUtils';
 
+export interface MagicWandOptions {
+  // Largest per-channel difference from the clicked colour that still matches, 0–255
+  tolerance: number;
+  // Only pixels connected to the click, rather than every matching pixel in the image
+  contiguous: boolean;
+}
+
+export type SelectionMode = 'replace' | 'add' | 'subtract';
+
+// Pixel amounts for ImageProcessor.refineMask; a negative grow shrinks the mask
+export interface MaskRefinement {
+  grow: number;
+  smooth: number;
+  feather: number;
+}
+
+// 1 where the mask is at least half selected, 0 elsewhere
+function toBinary(imageData: ImageData): Uint8Array {
+  const binary = new Uint8Array(imageData.width * imageData.height);
+  for (let i = 0; i < binary.length; i++) binary[i] = imageData.data[i * 4 + 3] >= 128 ? 1 : 0;
+  return binary;
+}
+
+// Separable Gaussian with edges clamped, so selections touching the border stay put there
+function gaussianBlur(values: Float32Array, width: number, height: number, sigma: number): Float32Array {
+  if (sigma <= 0) return values;
+  const radius = Math.ceil(sigma * 3);
+  const kernel = Array.from({ length: radius * 2 + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)));
+  const total = kernel.reduce((sum, weight) => sum + weight, 0);
+  const weights = kernel.map(weight => weight / total);
+
+  const pass = (source: Float32Array, horizontal: boolean) => {
+    const result = new Float32Array(source.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = horizontal ? Math.min(width - 1, Math.max(0, x + k)) : x;
+          const sy = horizontal ? y : Math.min(height - 1, Math.max(0, y + k));
+          sum += source[sy * width + sx] * weights[k + radius];
+        }
+        result[y * width + x] = sum;
+      }
+    }
+    return result;
+  };
+  return pass(pass(values, true), false);
+}
+
+// One row or column of the Felzenszwalb–Huttenlocher distance transform
+function distanceTransform1d(f: Float64Array, n: number): Float64Array {
+  const d = new Float64Array(n);
+  const v = new Int32Array(n);
+  const z = new Float64Array(n + 1);
+  const intersect = (q: number, p: number) => ((f[q] + q * q) - (f[p] + p * p)) / (2 * q - 2 * p);
+
+  let k = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+  for (let q = 1; q < n; q++) {
+    let s = intersect(q, v[k]);
+    while (s <= z[k]) s = intersect(q, v[--k]);
+    v[++k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) ** 2 + f[v[k]];
+  }
+  return d;
+}
+
+// Squared Euclidean distance from every pixel to the nearest pixel equal to `value`,
+// which makes growing and shrinking round rather than square
+function squaredDistanceTo(binary: Uint8Array, width: number, height: number, value: number): Float64Array {
+  const far = 1e20;
+  const distances = Float64Array.from(binary, pixel => (pixel === value ? 0 : far));
+
+  const column = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) column[y] = distances[y * width + x];
+    distanceTransform1d(column, height).forEach((d, y) => { distances[y * width + x] = d; });
+  }
+  for (let y = 0; y < height; y++) {
+    distances.set(distanceTransform1d(distances.slice(y * width, (y + 1) * width), width), y * width);
+  }
+  return distances;
+}
+
+// Pixels are read once per image rather than on every click
+const pixelCache = new WeakMap<HTMLImageElement, ImageData>();
+
+function readPixels(image: HTMLImageElement): ImageData {
+  const cached = pixelCache.get(image);
+  if (cached) return cached;
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  ctx.drawImage(image, 0, 0);
+
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  pixelCache.set(image, pixels);
+  return pixels;
+}
+
 export class ImageProcessor {
-  // Interactive segmentation using click point
+  // Magic wand: selects pixels within `tolerance` of the clicked colour.
+  // Returns null when the click is outside the image.
   static async createMaskFromClick(
     image: HTMLImageElement, 
     x: number, 
-    y: number
-  ): Promise<SegmentationMask> {
-    // Simulate mask creation - in production this would use MediaPipe
+    y: number,
+    options: MagicWandOptions
+  ): Promise<SegmentationMask | null> {
+    const pixels = readPixels(image);
+    const { width, height, data } = pixels;
+    const startX = Math.floor(x);
+    const startY = Math.floor(y);
+    if (startX < 0 || startY < 0 || startX >= width || startY >= height) return null;
+
+    const start = (startY * width + startX) * 4;
+    const target = data.slice(start, start + 4);
+    const matches = (pixel: number) => {
+      const i = pixel * 4;
+      return Math.abs(data[i] - target[0]) <= options.tolerance &&
+        Math.abs(data[i + 1] - target[1]) <= options.tolerance &&
+        Math.abs(data[i + 2] - target[2]) <= options.tolerance &&
+        Math.abs(data[i + 3] - target[3]) <= options.tolerance;
+    };
+
+    const imageData = new ImageData(width, height);
+    const select = (pixel: number) => imageData.data.fill(255, pixel * 4, pixel * 4 + 4);
+
+    if (!options.contiguous) {
+      for (let pixel = 0; pixel < width * height; pixel++) {
+        if (matches(pixel)) select(pixel);
+      }
+    } else {
+      // Scanline fill: each stack entry is a seed for a whole horizontal run
+      const visited = new Uint8Array(width * height);
+      const stack = [startY * width + startX];
+      while (stack.length > 0) {
+        const seed = stack.pop()!;
+        if (visited[seed]) continue;
+
+        const rowStart = seed - (seed % width);
+        let left = seed;
+        while (left > rowStart && !visited[left - 1] && matches(left - 1)) left--;
+        let right = seed;
+        while (right < rowStart + width - 1 && !visited[right + 1] && matches(right + 1)) right++;
+
+        for (let pixel = left; pixel <= right; pixel++) {
+          visited[pixel] = 1;
+          select(pixel);
+          if (pixel >= width && !visited[pixel - width] && matches(pixel - width)) stack.push(pixel - width);
+          if (pixel < width * (height - 1) && !visited[pixel + width] && matches(pixel + width)) stack.push(pixel + width);
+        }
+      }
+    }
+
+    const bounds = this.getMaskBounds(imageData);
+    return bounds && { id: generateId(), imageData, bounds, feather: 0 };
+  }
+
+  // Applies a new selection to the current one the way Shift and Alt do in image editors
+  static combineSelection(
+    current: SegmentationMask | null,
+    mask: SegmentationMask,
+    mode: SelectionMode
+  ): SegmentationMask | null {
+    if (!current || mode === 'replace') return mode === 'subtract' ? current : mask;
+    if (mode === 'add') return this.mergeMasks([current, mask]);
+
+    const data = new Uint8ClampedArray(current.imageData.data);
+    const removed = mask.imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+      if (removed[i + 3] > 0) data.fill(0, i, i + 4);
+    }
+    const imageData = new ImageData(data, current.imageData.width, current.imageData.height);
+    const bounds = this.getMaskBounds(imageData);
+    return bounds && { ...current, id: generateId(), imageData, bounds };
+  }
+
+  // Tightest rectangle around the selected pixels, or null if there are none
+  static getMaskBounds(imageData: ImageData): SegmentationMask['bounds'] | null {
+    const { width, height, data } = imageData;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (data[(y * width + x) * 4 + 3] === 0) continue;
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+  }
+
+  // Reads a saved black and white mask image back into a selection, stretched
+  // to the image it is applied to; null if nothing in it is selected
+  static fromMaskImage(image: CanvasImageSource, width: number, height: number, label?: string): SegmentationMask | null {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d')!;
-    canvas.width = image.width;
-    canvas.height = image.height;
+    canvas.width = width;
+    canvas.height = height;
+    ctx.drawImage(image, 0, 0, width, height);
 
-    // Draw the image
-    ctx.drawImage(image, 0, 0);
-    
-    // Create a simple circular mask for demo
-    const radius = 50;
-    const maskCanvas = document.createElement('canvas');
-    const maskCtx = maskCanvas.getContext('2d')!;
-    maskCanvas.width = image.width;
-    maskCanvas.height = image.height;
-    
-    // Fill with black (background)
-    maskCtx.fillStyle = 'black';
-    maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
-    
-    // Draw white circle (selected region)
-    maskCtx.fillStyle = 'white';
-    maskCtx.beginPath();
-    maskCtx.arc(x, y, radius, 0, 2 * Math.PI);
-    maskCtx.fill();
+    const source = ctx.getImageData(0, 0, width, height).data;
+    const imageData = new ImageData(width, height);
+    for (let i = 0; i < source.length; i += 4) {
+      if (source[i] >= 128) imageData.data.fill(255, i, i + 4);
+    }
+
+    const bounds = this.getMaskBounds(imageData);
+    return bounds && { id: generateId(), label, imageData, bounds, feather: 0 };
+  }
 
-    const imageData = maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height);
+  // Union of masks over the same image, e.g. several accepted segmentation results
+  static mergeMasks(masks: SegmentationMask[]): SegmentationMask {
+    const [first] = masks;
+    const { width, height } = first.imageData;
+    const data = new Uint8ClampedArray(first.imageData.data);
+    for (const mask of masks.slice(1)) {
+      const source = mask.imageData.data;
+      for (let i = 0; i < data.length; i += 4) {
+        if (source[i + 3] > data[i + 3]) {
+          data.set(source.subarray(i, i + 4), i);
+        }
+      }
+    }
+
+    const left = Math.min(...masks.map(m => m.bounds.x));
+    const top = Math.min(...masks.map(m => m.bounds.y));
+    const right = Math.max(...masks.map(m => m.bounds.x + m.bounds.width));
+    const bottom = Math.max(...masks.map(m => m.bounds.y + m.bounds.height));
 
     return {
       id: generateId(),
-      imageData,
-      bounds: {
-        x: Math.max(0, x - radius),
-        y: Math.max(0, y - radius),
-        width: radius * 2,
-        height: radius * 2
-      },
-      feather: 5
+      label: masks.map(m => m.label).filter(Boolean).join(', ') || undefined,
+      imageData: new ImageData(data, width, height),
+      bounds: { x: left, y: top, width: right - left, height: bottom - top },
+      feather: Math.max(...masks.map(m => m.feather))
     };
   }
 
-  // Apply feathering to mask
-  static applyFeathering(mask: SegmentationMask, featherRadius: number): ImageData {
-    const { imageData } = mask;
-    const data = new Uint8ClampedArray(imageData.data);
-    
-    // Simple box blur for feathering
-    for (let i = 0; i < featherRadius; i++) {
-      this.boxBlur(data, imageData.width, imageData.height);
+  // Draws the mask, feathered, on its own canvas, with the selected area filled in
+  // a solid colour if one is given, ready to be composited over an image or mask
+  static maskToCanvas(mask: SegmentationMask, color?: string): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d')!;
+    canvas.width = mask.imageData.width;
+    canvas.height = mask.imageData.height;
+
+    ctx.putImageData(mask.feather > 0 ? this.applyFeathering(mask, mask.feather) : mask.imageData, 0, 0);
+    if (color) {
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = color;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
     }
-    
-    return new ImageData(data, imageData.width, imageData.height);
+    return canvas;
   }
 
-  private static boxBlur(data: Uint8ClampedArray, width: number, height: number) {
-    const temp = new Uint8ClampedArray(data);
-    
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const idx = (y * width + x) * 4;
-        
-        // Average the alpha channel (mask channel)
-        const sum = 
-          temp[idx - 4 + 3] + temp[idx + 3] + temp[idx + 4 + 3] +
-          temp[idx - width * 4 + 3] + temp[idx + 3] + temp[idx + width * 4 + 3] +
-          temp[idx - width * 4 - 4 + 3] + temp[idx - width * 4 + 4 + 3] + temp[idx + width * 4 - 4 + 3];
-        
-        data[idx + 3] = sum / 9;
-      }
+  // Grow or shrink, then smooth; the feather is kept on the mask and applied when it is drawn
+  static refineMask(mask: SegmentationMask, refinement: MaskRefinement): SegmentationMask | null {
+    const { width, height } = mask.imageData;
+    let binary = toBinary(mask.imageData);
+
+    if (refinement.grow !== 0) {
+      const radius = Math.abs(refinement.grow);
+      // Growing selects whatever is near the selection; shrinking drops whatever is near its edge
+      const distances = squaredDistanceTo(binary, width, height, refinement.grow > 0 ? 1 : 0);
+      binary = binary.map((value, i) => refinement.grow > 0
+        ? Number(distances[i] <= radius * radius)
+        : Number(value === 1 && distances[i] > radius * radius));
+    }
+
+    if (refinement.smooth > 0) {
+      const blurred = gaussianBlur(Float32Array.from(binary), width, height, refinement.smooth);
+      binary = binary.map((_, i) => Number(blurred[i] >= 0.5));
     }
+
+    return this.fromBinary(mask, binary, { feather: refinement.feather });
+  }
+
+  static invertMask(mask: SegmentationMask): SegmentationMask | null {
+    return this.fromBinary(mask, toBinary(mask.imageData).map(value => 1 - value));
+  }
+
+  // Selects unselected areas that the selection encloses completely
+  static fillHoles(mask: SegmentationMask): SegmentationMask | null {
+    const { width, height } = mask.imageData;
+    const binary = toBinary(mask.imageData);
+
+    // Whatever background can be reached from the image border is not a hole.
+    // Pixels are marked as they are queued, so each one is queued at most once.
+    const outside = new Uint8Array(width * height);
+    const stack: number[] = [];
+    const visit = (pixel: number) => {
+      if (outside[pixel] || binary[pixel]) return;
+      outside[pixel] = 1;
+      stack.push(pixel);
+    };
+    for (let x = 0; x < width; x++) {
+      visit(x);
+      visit((height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+      visit(y * width);
+      visit(y * width + width - 1);
+    }
+
+    while (stack.length > 0) {
+      const pixel = stack.pop()!;
+      const x = pixel % width;
+      if (x > 0) visit(pixel - 1);
+      if (x < width - 1) visit(pixel + 1);
+      if (pixel >= width) visit(pixel - width);
+      if (pixel < width * (height - 1)) visit(pixel + width);
+    }
+
+    return this.fromBinary(mask, binary.map((value, i) => Number(value === 1 || !outside[i])));
+  }
+
+  // Gaussian blur of the mask's alpha, giving it a soft edge about featherRadius pixels wide
+  static applyFeathering(mask: SegmentationMask, featherRadius: number): ImageData {
+    const { width, height, data } = mask.imageData;
+    const alpha = new Float32Array(width * height);
+    for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+
+    const blurred = gaussianBlur(alpha, width, height, featherRadius / 2);
+    const feathered = new ImageData(width, height);
+    for (let i = 0; i < blurred.length; i++) {
+      feathered.data.set([255, 255, 255, blurred[i]], i * 4);
+    }
+    return feathered;
+  }
+
+  private static fromBinary(
+    mask: SegmentationMask,
+    binary: Uint8Array,
+    changes: Partial<SegmentationMask> = {}
+  ): SegmentationMask | null {
+    const { width, height } = mask.imageData;
+    const imageData = new ImageData(width, height);
+    binary.forEach((value, i) => {
+      if (value) imageData.data.fill(255, i * 4, i * 4 + 4);
+    });
+
+    const bounds = this.getMaskBounds(imageData);
+    return bounds && { ...mask, ...changes, id: generateId(), imageData, bounds };
   }
 
   // Convert ImageData to base64 for API
@@ -0,0 +1,80 @@
+import { GenerationParameters, TokenUsage } from '../types';
+
+// Full positive 32-bit range, which every provider accepts as a seed
+export const MAX_SEED = 2 ** 31 - 1;
+
+// Brings any number into the accepted seed range
+export const clampSeed = (seed: number): number => Math.min(Math.max(Math.trunc(seed), 0), MAX_SEED);
+
+export interface GenerationRequest {
+  prompt: string;
+  referenceImages?: string[]; // base64 array
+  parameters?: GenerationParameters;
+}
+
+export interface EditRequest {
+  instruction: string;
+  originalImage: string; // base64
+  referenceImages?: string[]; // base64 array
+  maskImage?: string; // base64
+  parameters?: GenerationParameters;
+}
+
+export interface SegmentationRequest {
+  image: string; // base64
+  query: string; // "the object at pixel (x,y)" or "the red car"
+}
+
+// One region the model found, with its box as 0–1 fractions of the image so it
+// doesn't depend on the resolution the model saw. The optional mask is a
+// base64 grayscale PNG covering just the box.
+export interface SegmentedRegion {
+  label: string;
+  box: { x: number; y: number; width: number; height: number };
+  mask?: string;
+}
+
+// Regions found for a selection query, with what the request was billed
+export interface SegmentationResponse {
+  regions: SegmentedRegion[];
+  usage?: TokenUsage;
+}
+
+export interface DescribeRequest {
+  image: string; // base64
+  prompt?: string; // what to focus on; a general description if omitted
+}
+
+// Images plus whatever the model wrote alongside them: explanations,
+// caveats or questions about the request
+export interface ImageResult {
+  images: string[];
+  text?: string;
+  usage?: TokenUsage;
+}
+
+// Reported while an image request is in flight
+export type GenerationProgress =
+  | { type: 'text'; text: string } // the next chunk of the model's text
+  | { type: 'image' } // one more image has arrived
+  | { type: 'complete' };
+
+export interface RequestOptions {
+  // Aborting rejects the call with a CancelledError
+  signal?: AbortSignal;
+  // Image requests stream when this is given and the provider supports it
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+// Everything the editor needs from an image model. Images go in and come out
+// as base64 PNG data without the data URL prefix.
+export interface ImageProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly modelVersion: string;
+
+  generateImage(request: GenerationRequest, options?: RequestOptions): Promise<ImageResult>;
+  editImage(request: EditRequest, options?: RequestOptions): Promise<ImageResult>;
+  segmentImage(request: SegmentationRequest, options?: RequestOptions): Promise<SegmentationResponse>;
+  describeImage(request: DescribeRequest, options?: RequestOptions): Promise<string>;
+}
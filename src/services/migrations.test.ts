@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MigrationContext, MigrationError, SCHEMA_VERSION, UNVERSIONED_SCHEMA, migrateRecord } from './migrations';
+import { Asset, Project, SessionState } from '../types';
+
+// "hello" as the body of a data URL
+const HELLO_BASE64 = 'aGVsbG8=';
+
+const createContext = (data: Record<string, Blob> = {}) => {
+  const saved: Array<{ asset: Asset; data: Blob }> = [];
+  const context: MigrationContext = {
+    saveAsset: vi.fn(async (asset: Asset, blob: Blob) => {
+      saved.push({ asset, data: blob });
+    }),
+    getAssetData: async (assetId) => data[assetId] ?? null
+  };
+  return { context, saved };
+};
+
+const v1Asset = (id: string, url?: string) => ({
+  id,
+  type: 'output',
+  mime: 'image/png',
+  width: 1024,
+  height: 1024,
+  checksum: `checksum-${id}`,
+  url
+});
+
+describe('migrateRecord', () => {
+  it('moves data URL images of an unversioned project into stored assets', async () => {
+    const { context, saved } = createContext();
+    const record = {
+      id: 'p1',
+      title: 'Old project',
+      createdAt: 0,
+      updatedAt: 0,
+      generations: [{ id: 'g1', sourceAssets: [], outputAssets: [v1Asset('a1', `data:image/jpeg;base64,${HELLO_BASE64}`)] }],
+      edits: [{ id: 'e1', outputAssets: [v1Asset('a2')] }]
+    };
+
+    const project = await migrateRecord<Project>('project', record, UNVERSIONED_SCHEMA, context);
+
+    const [output] = project.generations[0].outputAssets;
+    expect(output).toMatchObject({ id: 'a1', mime: 'image/jpeg', size: 5 });
+    expect(output).not.toHaveProperty('url');
+    expect(saved).toHaveLength(1);
+    expect(saved[0].asset).toEqual(output);
+    expect(await saved[0].data.text()).toBe('hello');
+
+    // Assets that were already blobs keep their metadata
+    expect(project.edits[0].outputAssets[0]).toMatchObject({ id: 'a2', size: 0 });
+  });
+
+  it('fails on images that only exist at a URL it cannot read', async () => {
+    const { context } = createContext();
+    const record = { generations: [{ sourceAssets: [v1Asset('a1', 'blob:http://localhost/1234')], outputAssets: [] }], edits: [] };
+
+    const migration = migrateRecord('project', record, UNVERSIONED_SCHEMA, context);
+    await expect(migration).rejects.toBeInstanceOf(MigrationError);
+    await expect(migration).rejects.toMatchObject({ fromVersion: UNVERSIONED_SCHEMA });
+  });
+
+  it('keeps metadata of images that cannot be measured', async () => {
+    const { context } = createContext({ a1: new Blob(['not an image'], { type: 'image/png' }) });
+    const output = { ...v1Asset('a1'), size: 12 };
+    const record = { generations: [{ sourceAssets: [], outputAssets: [output] }], edits: [] };
+
+    const project = await migrateRecord<Project>('project', record, 2, context);
+    expect(project.generations[0].outputAssets[0]).toEqual(output);
+  });
+
+  it('sizes stored asset records from their bytes', async () => {
+    const { context } = createContext();
+    const data = new Blob(['hello']);
+    const record = { asset: v1Asset('a1', 'data:image/png;base64,'), data, cachedAt: 1 };
+
+    const migrated = await migrateRecord<{ asset: Asset; data: Blob }>('asset', record, UNVERSIONED_SCHEMA, context);
+    expect(migrated.asset.size).toBe(5);
+    expect(migrated.asset).not.toHaveProperty('url');
+    expect(migrated.data).toBe(data);
+  });
+
+  it('gives old sessions an empty canvas asset', async () => {
+    const { context } = createContext();
+    const session = await migrateRecord<SessionState>('session', { projectId: 'p1' }, UNVERSIONED_SCHEMA, context);
+    expect(session.canvasAssetId).toBeNull();
+  });
+
+  it('leaves current records alone', async () => {
+    const { context } = createContext();
+    const record = { projectId: 'p1', canvasAssetId: 'a1' };
+    expect(await migrateRecord('session', record, SCHEMA_VERSION, context)).toBe(record);
+  });
+
+  it('refuses records from a newer schema', async () => {
+    const { context } = createContext();
+    await expect(migrateRecord('session', {}, SCHEMA_VERSION + 1, context)).rejects.toBeInstanceOf(MigrationError);
+  });
+});
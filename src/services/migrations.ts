@@ -0,0 +1,180 @@
+import { Asset, Edit, Generation, Project, SessionState } from '../types';
+import { base64ToBlob, readImageInfo } from '../utils/imageUtils';
+
+export type RecordType = 'project' | 'asset' | 'access' | 'session' | 'generation';
+
+// Bump this whenever a persisted shape in src/types changes, and register a
+// migration below that upgrades records written by the previous version.
+export const SCHEMA_VERSION = 3;
+
+// Records written before versioning existed carry no schema version at all
+export const UNVERSIONED_SCHEMA = 1;
+
+export interface MigrationContext {
+  saveAsset: (asset: Asset, data: Blob) => Promise<void>;
+  getAssetData: (assetId: string) => Promise<Blob | null>;
+}
+
+type Migrator = (record: unknown, context: MigrationContext) => unknown | Promise<unknown>;
+
+interface Migration {
+  // Schema version this migration upgrades records to
+  version: number;
+  description: string;
+  migrators: Partial<Record<RecordType, Migrator>>;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string, public readonly fromVersion: number) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// v1 assets embedded their bytes as data URLs and had no size
+type AssetV1 = Omit<Asset, 'size'> & { url?: string; size?: number };
+
+const migrateAssetToV2 = async (asset: AssetV1, context: MigrationContext): Promise<Asset> => {
+  const { url, ...rest } = asset;
+  if (url?.startsWith('data:')) {
+    const [header, base64] = url.split('base64,');
+    const mime = header.match(/^data:([^;]+);/)?.[1] || asset.mime;
+    const blob = base64ToBlob(base64, mime);
+    const migrated: Asset = { ...rest, mime, size: blob.size };
+    await context.saveAsset(migrated, blob);
+    return migrated;
+  }
+  if (url) {
+    throw new Error(`Asset ${asset.id} points at ${url.slice(0, 32)}… which cannot be recovered`);
+  }
+  return { ...rest, size: asset.size ?? 0 };
+};
+
+interface GenerationV1 {
+  sourceAssets: AssetV1[];
+  outputAssets: AssetV1[];
+}
+
+interface EditV1 {
+  maskReferenceAsset?: AssetV1;
+  outputAssets: AssetV1[];
+}
+
+const migrateGenerationToV2 = async <T extends GenerationV1>(generation: T, context: MigrationContext) => ({
+  ...generation,
+  sourceAssets: await Promise.all(generation.sourceAssets.map(asset => migrateAssetToV2(asset, context))),
+  outputAssets: await Promise.all(generation.outputAssets.map(asset => migrateAssetToV2(asset, context)))
+});
+
+// v2 stamped every asset as a 1024×1024 PNG; measure the real bytes instead
+const measureAsset = async (asset: Asset, data: Blob | null): Promise<Asset> => {
+  if (!data) return asset;
+  try {
+    return { ...asset, ...(await readImageInfo(data)) };
+  } catch {
+    // Undecodable bytes keep their old metadata rather than failing the record
+    return asset;
+  }
+};
+
+const measureStoredAsset = async (asset: Asset, context: MigrationContext) =>
+  measureAsset(asset, await context.getAssetData(asset.id));
+
+const measureGenerationAssets = async (generation: Generation, context: MigrationContext): Promise<Generation> => ({
+  ...generation,
+  sourceAssets: await Promise.all(generation.sourceAssets.map(asset => measureStoredAsset(asset, context))),
+  outputAssets: await Promise.all(generation.outputAssets.map(asset => measureStoredAsset(asset, context)))
+});
+
+const measureEditAssets = async (edit: Edit, context: MigrationContext): Promise<Edit> => ({
+  ...edit,
+  maskReferenceAsset: edit.maskReferenceAsset && await measureStoredAsset(edit.maskReferenceAsset, context),
+  outputAssets: await Promise.all(edit.outputAssets.map(asset => measureStoredAsset(asset, context)))
+});
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Move embedded data URL images into blob assets',
+    migrators: {
+      project: async (record, context) => {
+        const project = record as Omit<Project, 'generations' | 'edits'> & {
+          generations: GenerationV1[];
+          edits: EditV1[];
+        };
+        return {
+          ...project,
+          generations: await Promise.all(project.generations.map(g => migrateGenerationToV2(g, context))),
+          edits: await Promise.all(project.edits.map(async edit => ({
+            ...edit,
+            maskReferenceAsset: edit.maskReferenceAsset && await migrateAssetToV2(edit.maskReferenceAsset, context),
+            outputAssets: await Promise.all(edit.outputAssets.map(asset => migrateAssetToV2(asset, context)))
+          })))
+        };
+      },
+      generation: (record, context) => migrateGenerationToV2(record as GenerationV1, context),
+      asset: (record) => {
+        const cached = record as { asset: AssetV1; data: Blob; cachedAt: number };
+        const asset: AssetV1 = { ...cached.asset, size: cached.data.size };
+        delete asset.url;
+        return { ...cached, asset };
+      },
+      session: (record) => {
+        const session = record as Omit<SessionState, 'canvasAssetId'> & { canvasAssetId?: string | null };
+        return { ...session, canvasAssetId: session.canvasAssetId ?? null };
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Record real image dimensions and types',
+    migrators: {
+      project: async (record, context) => {
+        const project = record as Project;
+        return {
+          ...project,
+          generations: await Promise.all(project.generations.map(g => measureGenerationAssets(g, context))),
+          edits: await Promise.all(project.edits.map(e => measureEditAssets(e, context)))
+        };
+      },
+      generation: (record, context) => measureGenerationAssets(record as Generation, context),
+      asset: async (record) => {
+        const cached = record as { asset: Asset; data: Blob; cachedAt: number };
+        return { ...cached, asset: await measureAsset(cached.asset, cached.data) };
+      }
+    }
+  }
+];
+
+// Upgrades a record one schema version at a time up to SCHEMA_VERSION
+export async function migrateRecord<T>(
+  type: RecordType,
+  record: unknown,
+  fromVersion: number,
+  context: MigrationContext
+): Promise<T> {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new MigrationError(
+      `Record was written by a newer version of the app (schema ${fromVersion}, this app supports ${SCHEMA_VERSION})`,
+      fromVersion
+    );
+  }
+
+  let current = record;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    const migrator = migration.migrators[type];
+    if (!migrator) continue;
+
+    try {
+      current = await migrator(current, context);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new MigrationError(
+        `Migration to schema ${migration.version} (${migration.description}) failed: ${reason}`,
+        fromVersion
+      );
+    }
+  }
+  return current as T;
+}
@@ -0,0 +1,314 @@
+import {
+  ImageProvider,
+  GenerationRequest,
+  EditRequest,
+  SegmentationRequest,
+  DescribeRequest,
+  ImageResult,
+  SegmentationResponse,
+  RequestOptions
+} from './imageProvider';
+import { GenerationParameters, TokenUsage } from '../types';
+import { createImageFromBase64, ASPECT_RATIO_SIZES } from '../utils/imageUtils';
+import { ImageErrorKind, CancelledError, deserializeImageError, throwIfCancelled } from './imageErrors';
+
+// FNV-1a, so the same prompt always yields the same picture when no seed is given
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: tiny, fast and good enough for procedural art
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+}
+
+function canvasToBase64(canvas: HTMLCanvasElement): string {
+  return canvas.toDataURL('image/png').split('base64,')[1];
+}
+
+// Simulated network latency that, like a real request, can be aborted
+function delay(random: () => number, signal?: AbortSignal): Promise<void> {
+  return sleep(400 + random() * 500, signal);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    throwIfCancelled(signal);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Lets error handling be exercised offline: include e.g. "[error:rate-limit]" in a prompt
+function simulateError(text: string) {
+  const kind = text.match(/\[error:([a-z-]+)\]/)?.[1];
+  if (kind) {
+    throw deserializeImageError({
+      error: `Simulated ${kind} error from the offline mock`,
+      kind: kind as ImageErrorKind,
+      // A text-only reply, as the real model sends when it wants clarification
+      responseText: kind === 'empty-response' ? 'Which style should this be in: photo, painting or sketch?' : undefined
+    });
+  }
+}
+
+// Plays a finished result back like a streamed reply: the note a few words
+// at a time, then the images
+async function streamResult(result: ImageResult, { signal, onProgress }: RequestOptions): Promise<ImageResult> {
+  if (!onProgress) return result;
+  for (const chunk of result.text?.match(/\S+\s*/g) || []) {
+    await sleep(80, signal);
+    onProgress({ type: 'text', text: chunk });
+  }
+  for (let i = 0; i < result.images.length; i++) {
+    await sleep(300, signal);
+    onProgress({ type: 'image' });
+  }
+  onProgress({ type: 'complete' });
+  return result;
+}
+
+// Token counts shaped like the real model's: a fixed cost per image in or
+// out, plus the prompt text. The mock is free unless given a price.
+function estimateUsage(prompt: string, inputImages: number, outputImages: number): TokenUsage {
+  return {
+    inputTokens: Math.ceil(prompt.split(/\s+/).length * 1.3) + inputImages * 258,
+    outputTokens: outputImages * 1290,
+  };
+}
+
+// A note like the ones the real model writes next to its images
+function describeResult(parameters: GenerationParameters | undefined, summary: string): string | undefined {
+  if (parameters?.responseModalities && !parameters.responseModalities.includes('TEXT')) return undefined;
+  return `${summary} (offline mock, seed ${parameters?.seed ?? 'from prompt'}).`;
+}
+
+function drawCaption(ctx: CanvasRenderingContext2D, text: string, width: number, height: number) {
+  const fontSize = Math.max(14, Math.round(width / 40));
+  ctx.font = `${fontSize}px sans-serif`;
+
+  // Greedy word wrap, capped at three lines
+  const maxWidth = width * 0.9;
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > 3) {
+    lines.length = 3;
+    lines[2] += '…';
+  }
+
+  const lineHeight = fontSize * 1.3;
+  const boxHeight = lines.length * lineHeight + fontSize;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - boxHeight, width, boxHeight);
+  ctx.fillStyle = 'white';
+  ctx.textBaseline = 'top';
+  lines.forEach((text, i) => {
+    ctx.fillText(text, width * 0.05, height - boxHeight + fontSize / 2 + i * lineHeight);
+  });
+
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.fillStyle = 'rgba(250, 204, 21, 0.9)';
+  ctx.fillText('MOCK', width * 0.05, fontSize);
+}
+
+// Deterministic offline stand-in for a real model: the same request always
+// produces the same pixels, so UI flows can be developed and demoed without
+// network access or API quota.
+export class MockImageProvider implements ImageProvider {
+  readonly id = 'mock';
+  readonly name = 'Offline Mock';
+  readonly modelVersion = 'mock-procedural-v1';
+
+  async generateImage(request: GenerationRequest, options: RequestOptions = {}): Promise<ImageResult> {
+    const seed = request.parameters?.seed ?? hashString(`${request.prompt}|${request.referenceImages?.length || 0}`);
+    await delay(createRandom(seed), options.signal);
+    simulateError(request.prompt);
+
+    // Each extra candidate is the next seed along, like a small seed sweep
+    const images: string[] = [];
+    for (let i = 0; i < (request.parameters?.candidateCount ?? 1); i++) {
+      throwIfCancelled(options.signal);
+      images.push(await this.renderGeneration(request, seed + i));
+    }
+    return streamResult(
+      {
+        images,
+        text: describeResult(request.parameters, `Here is a procedural picture for "${request.prompt}"`),
+        usage: estimateUsage(request.prompt, request.referenceImages?.length || 0, images.length)
+      },
+      options
+    );
+  }
+
+  private async renderGeneration(request: GenerationRequest, seed: number): Promise<string> {
+    const random = createRandom(seed);
+    const { width, height } = ASPECT_RATIO_SIZES[request.parameters?.aspectRatio ?? '1:1'];
+    const { canvas, ctx } = createCanvas(width, height);
+    // Temperature widens the palette and the amount of clutter
+    const spread = 40 + (request.parameters?.temperature ?? 0.7) * 140;
+    const baseHue = random() * 360;
+
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${baseHue}, 60%, 35%)`);
+    gradient.addColorStop(1, `hsl(${(baseHue + spread) % 360}, 70%, 55%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    const shapeCount = 6 + Math.floor(random() * (6 + spread / 20));
+    for (let i = 0; i < shapeCount; i++) {
+      const hue = (baseHue + (random() - 0.5) * spread * 2 + 360) % 360;
+      ctx.fillStyle = `hsla(${hue}, ${50 + random() * 40}%, ${40 + random() * 40}%, ${0.3 + random() * 0.5})`;
+      const x = random() * width;
+      const y = random() * height;
+      const size = 40 + random() * Math.min(width, height) * 0.3;
+
+      ctx.beginPath();
+      if (random() < 0.5) {
+        ctx.arc(x, y, size / 2, 0, Math.PI * 2);
+      } else {
+        ctx.rect(x - size / 2, y - size / 2, size, size * (0.5 + random()));
+      }
+      ctx.fill();
+    }
+
+    // Show the first reference image as an inset so its influence is visible
+    if (request.referenceImages?.[0]) {
+      const reference = await createImageFromBase64(request.referenceImages[0]);
+      const insetSize = Math.min(width, height) / 4;
+      ctx.drawImage(reference, width - insetSize - 24, 24, insetSize, insetSize);
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 4;
+      ctx.strokeRect(width - insetSize - 24, 24, insetSize, insetSize);
+    }
+
+    drawCaption(ctx, request.prompt, width, height);
+    return canvasToBase64(canvas);
+  }
+
+  async editImage(request: EditRequest, options: RequestOptions = {}): Promise<ImageResult> {
+    const seed = request.parameters?.seed ?? hashString(`${request.instruction}|${request.originalImage.length}`);
+    await delay(createRandom(seed), options.signal);
+    simulateError(request.instruction);
+
+    const original = await createImageFromBase64(request.originalImage);
+    const { width, height } = original;
+
+    let alphaMask: HTMLCanvasElement | null = null;
+    if (request.maskImage) {
+      const mask = await createImageFromBase64(request.maskImage);
+      const { canvas, ctx: maskCtx } = createCanvas(width, height);
+      maskCtx.drawImage(mask, 0, 0, width, height);
+      // The mask is white-on-black; move its brightness into the alpha channel
+      const maskData = maskCtx.getImageData(0, 0, width, height);
+      for (let i = 0; i < maskData.data.length; i += 4) {
+        maskData.data[i + 3] = maskData.data[i];
+      }
+      maskCtx.putImageData(maskData, 0, 0);
+      alphaMask = canvas;
+    }
+
+    const images: string[] = [];
+    for (let i = 0; i < (request.parameters?.candidateCount ?? 1); i++) {
+      const random = createRandom(seed + i);
+      const { canvas, ctx } = createCanvas(width, height);
+      ctx.drawImage(original, 0, 0);
+
+      // A tint layer stands in for the edit, limited to the mask where one is given
+      const { canvas: tint, ctx: tintCtx } = createCanvas(width, height);
+      tintCtx.fillStyle = `hsla(${random() * 360}, 80%, 55%, ${alphaMask ? 0.6 : 0.3})`;
+      tintCtx.fillRect(0, 0, width, height);
+      if (alphaMask) {
+        tintCtx.globalCompositeOperation = 'destination-in';
+        tintCtx.drawImage(alphaMask, 0, 0);
+      }
+
+      ctx.drawImage(tint, 0, 0);
+      drawCaption(ctx, request.instruction, width, height);
+      images.push(canvasToBase64(canvas));
+    }
+    return streamResult(
+      {
+        images,
+        text: describeResult(request.parameters, request.maskImage ? 'I tinted the selected area' : 'I tinted the whole image'),
+        usage: estimateUsage(
+          request.instruction,
+          1 + (request.referenceImages?.length || 0) + (request.maskImage ? 1 : 0),
+          images.length
+        )
+      },
+      options
+    );
+  }
+
+  async segmentImage(request: SegmentationRequest, options: RequestOptions = {}): Promise<SegmentationResponse> {
+    const random = createRandom(hashString(request.query));
+    await delay(random, options.signal);
+
+    // Boxes are fractions of the image, so the mask is drawn at a nominal size
+    const width = 0.3 + random() * 0.3;
+    const height = 0.3 + random() * 0.3;
+    const box = { x: random() * (1 - width), y: random() * (1 - height), width, height };
+
+    const maskSize = 256;
+    const { canvas, ctx } = createCanvas(maskSize, maskSize);
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, maskSize, maskSize);
+    ctx.fillStyle = 'white';
+    ctx.beginPath();
+    ctx.ellipse(maskSize / 2, maskSize / 2, maskSize / 2, maskSize / 2, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    return {
+      regions: [{ label: request.query, box, mask: canvasToBase64(canvas) }],
+      usage: estimateUsage(request.query, 1, 0)
+    };
+  }
+
+  async describeImage(request: DescribeRequest, options: RequestOptions = {}): Promise<string> {
+    const image = await createImageFromBase64(request.image);
+    await delay(createRandom(hashString(request.image.slice(0, 64))), options.signal);
+
+    // Downscaling to a single pixel averages the whole image
+    const { ctx } = createCanvas(1, 1);
+    ctx.drawImage(image, 0, 0, 1, 1);
+    const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+
+    return `A ${image.width}×${image.height} image with an average colour of rgb(${r}, ${g}, ${b}). (Offline mock description)`;
+  }
+}
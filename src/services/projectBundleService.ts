@@ -0,0 +1,206 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { CacheService } from './cacheService';
+import { AssetService } from './assetService';
+import { Project, Asset } from '../types';
+import { generateId, getImageExtension } from '../utils/imageUtils';
+import { getProjectAssets, getProjectAssetIds } from '../utils/projectUtils';
+import { SCHEMA_VERSION, UNVERSIONED_SCHEMA, migrateRecord } from './migrations';
+
+const BUNDLE_FORMAT = 'nano-banana-project';
+const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  // Schema of the embedded project record; older ones are migrated on import
+  schemaVersion?: number;
+  exportedAt: number;
+  project: Project;
+  assets: Array<{
+    id: string;
+    path: string;
+    mime: string;
+    checksum: string;
+  }>;
+}
+
+export class ProjectBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectBundleError';
+  }
+}
+
+// A bundle is a zip holding a versioned manifest.json (the full Project record)
+// plus every referenced asset under assets/.
+export class ProjectBundleService {
+  static async exportProject(project: Project): Promise<Blob> {
+    const files: Record<string, Uint8Array> = {};
+    const manifestAssets: BundleManifest['assets'] = [];
+
+    for (const asset of getProjectAssets(project)) {
+      const cached = await CacheService.getCachedAsset(asset.id);
+      if (!cached) {
+        throw new ProjectBundleError(`Image data for asset ${asset.id} is missing from storage`);
+      }
+
+      const path = `assets/${asset.id}.${getImageExtension(asset.mime)}`;
+      files[path] = new Uint8Array(await cached.data.arrayBuffer());
+      manifestAssets.push({ id: asset.id, path, mime: asset.mime, checksum: asset.checksum });
+    }
+
+    const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt: Date.now(),
+      project,
+      assets: manifestAssets
+    };
+    files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+    // Images are already compressed, so only the manifest is worth deflating
+    const zipped = zipSync(files, { level: 0 });
+    return new Blob([zipped], { type: 'application/zip' });
+  }
+
+  static async importBundle(file: Blob): Promise<Project> {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    } catch {
+      throw new ProjectBundleError('This file is not a valid project bundle (could not read zip)');
+    }
+
+    const manifest = parseManifest(files[MANIFEST_PATH]);
+
+    // Bundled bytes by original asset id. Nothing is written to storage until
+    // ids have been remapped, so migrations collect their images here too.
+    const bundledData = new Map<string, Blob>();
+    for (const entry of manifest.assets) {
+      const data = files[entry.path];
+      if (!data) {
+        throw new ProjectBundleError(`Bundle is missing ${entry.path}`);
+      }
+      bundledData.set(entry.id, new Blob([data], { type: entry.mime }));
+    }
+
+    let project: Project;
+    try {
+      project = await migrateRecord<Project>(
+        'project',
+        manifest.project,
+        manifest.schemaVersion ?? UNVERSIONED_SCHEMA,
+        {
+          saveAsset: async (asset, data) => {
+            bundledData.set(asset.id, data);
+          },
+          // Measure the bundled bytes, not whatever local asset shares the id
+          getAssetData: async (assetId) => bundledData.get(assetId) ?? null
+        }
+      );
+    } catch (error) {
+      throw new ProjectBundleError(error instanceof Error ? error.message : 'Bundle project could not be upgraded');
+    }
+
+    // Ids only need to change where they would overwrite something already stored
+    const projectId = CacheService.isProjectDeleted(project.id) || (await CacheService.getProject(project.id))
+      ? generateId()
+      : project.id;
+    const assetIdMap = new Map<string, string>();
+    // Checksums come from the bundled bytes; the manifest's are not trusted
+    const checksums = new Map<string, string>();
+
+    for (const asset of getProjectAssets(project)) {
+      const data = bundledData.get(asset.id);
+      if (!data) {
+        throw new ProjectBundleError(`Bundle has no image data for asset ${asset.id}`);
+      }
+
+      const checksum = await AssetService.getBlobChecksum(data);
+      const existing = await CacheService.getCachedAsset(asset.id);
+      const reuse = existing && existing.asset.checksum === checksum;
+      assetIdMap.set(asset.id, existing && !reuse ? generateId() : asset.id);
+      checksums.set(asset.id, checksum);
+    }
+
+    const remapAsset = (asset: Asset): Asset => ({
+      ...asset,
+      id: assetIdMap.get(asset.id)!,
+      checksum: checksums.get(asset.id)!
+    });
+    const imported: Project = {
+      ...project,
+      id: projectId,
+      generations: project.generations.map(generation => ({
+        ...generation,
+        sourceAssets: generation.sourceAssets.map(remapAsset),
+        outputAssets: generation.outputAssets.map(remapAsset)
+      })),
+      edits: project.edits.map(edit => ({
+        ...edit,
+        maskAssetId: edit.maskAssetId && (assetIdMap.get(edit.maskAssetId) ?? edit.maskAssetId),
+        maskReferenceAsset: edit.maskReferenceAsset && remapAsset(edit.maskReferenceAsset),
+        outputAssets: edit.outputAssets.map(remapAsset)
+      })),
+      masks: project.masks?.map(mask => ({
+        ...mask,
+        asset: remapAsset(mask.asset),
+        sourceAssetId: mask.sourceAssetId && (assetIdMap.get(mask.sourceAssetId) ?? mask.sourceAssetId)
+      }))
+    };
+
+    for (const asset of getProjectAssets(project)) {
+      if (await CacheService.getCachedAsset(assetIdMap.get(asset.id)!)) continue;
+      await CacheService.cacheAsset(remapAsset(asset), bundledData.get(asset.id)!);
+    }
+    await CacheService.saveProject(imported);
+
+    return imported;
+  }
+}
+
+function parseManifest(data: Uint8Array | undefined): BundleManifest {
+  if (!data) {
+    throw new ProjectBundleError(`Bundle has no ${MANIFEST_PATH}`);
+  }
+
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(strFromU8(data));
+  } catch {
+    throw new ProjectBundleError(`${MANIFEST_PATH} is not valid JSON`);
+  }
+
+  if (manifest?.format !== BUNDLE_FORMAT) {
+    throw new ProjectBundleError('This file is not a Nano Banana project bundle');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+    throw new ProjectBundleError(`Unsupported bundle version ${manifest.version}; please update the editor`);
+  }
+
+  const { project } = manifest;
+  if (
+    !project || typeof project.id !== 'string' || typeof project.title !== 'string' ||
+    !Array.isArray(project.generations) || !Array.isArray(project.edits) ||
+    !Array.isArray(manifest.assets)
+  ) {
+    throw new ProjectBundleError('Bundle manifest is missing project data');
+  }
+
+  const malformed =
+    project.generations.some(g => !Array.isArray(g?.sourceAssets) || !Array.isArray(g?.outputAssets)) ||
+    project.edits.some(e => !Array.isArray(e?.outputAssets));
+  if (malformed) {
+    throw new ProjectBundleError('Bundle manifest contains malformed generations or edits');
+  }
+
+  const bundled = new Set(manifest.assets.map(asset => asset.id));
+  const missing = [...getProjectAssetIds(project)].filter(id => !bundled.has(id));
+  if (missing.length > 0) {
+    throw new ProjectBundleError(`Bundle manifest does not list ${missing.length} referenced asset(s)`);
+  }
+
+  return manifest;
+}
@@ -0,0 +1,43 @@
+import { ImageProvider } from './imageProvider';
+import { GeminiService } from './geminiService';
+import { MockImageProvider } from './mockImageProvider';
+import { ProxyImageProvider } from './proxyImageProvider';
+import { useSettingsStore } from '../store/useSettingsStore';
+
+export type ProviderId = 'gemini' | 'mock';
+
+// 'proxy' routes Gemini calls through server/ so the key stays off the client.
+// Without an explicit mode, a client-side key means direct mode.
+export const GEMINI_MODE: 'direct' | 'proxy' =
+  import.meta.env.VITE_GEMINI_MODE === 'direct' || import.meta.env.VITE_GEMINI_MODE === 'proxy'
+    ? import.meta.env.VITE_GEMINI_MODE
+    : import.meta.env.VITE_GEMINI_API_KEY ? 'direct' : 'proxy';
+
+export const PROVIDER_OPTIONS: Array<{ id: ProviderId; name: string }> = [
+  { id: 'gemini', name: 'Gemini 2.5 Flash Image' },
+  { id: 'mock', name: 'Offline Mock' },
+];
+
+// Providers are created on first use so the mock never needs an API key
+const providers = new Map<ProviderId, ImageProvider>();
+
+function createProvider(id: ProviderId): ImageProvider {
+  switch (id) {
+    case 'mock':
+      return new MockImageProvider();
+    case 'gemini':
+    default:
+      return GEMINI_MODE === 'proxy'
+        ? new ProxyImageProvider(import.meta.env.VITE_PROXY_URL || '/api')
+        : new GeminiService(import.meta.env.VITE_GEMINI_API_KEY || 'demo-key');
+  }
+}
+
+export function getImageProvider(id: ProviderId = useSettingsStore.getState().providerId): ImageProvider {
+  let provider = providers.get(id);
+  if (!provider) {
+    provider = createProvider(id);
+    providers.set(id, provider);
+  }
+  return provider;
+}
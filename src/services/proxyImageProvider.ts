@@ -0,0 +1,131 @@
+import {
+  ImageProvider,
+  GenerationRequest,
+  EditRequest,
+  SegmentationRequest,
+  DescribeRequest,
+  GenerationProgress,
+  ImageResult,
+  SegmentationResponse,
+  RequestOptions
+} from './imageProvider';
+import { GEMINI_MODEL } from './geminiService';
+import {
+  ImageProviderError,
+  RateLimitError,
+  InvalidInputError,
+  NetworkError,
+  CancelledError,
+  SerializedImageError,
+  deserializeImageError
+} from './imageErrors';
+
+export const STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+// One line of a streamed proxy response: any number of progress events,
+// then exactly one result or error
+export type ProxyStreamLine<T = unknown> =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'result'; result: T }
+  | { type: 'error'; error: SerializedImageError };
+
+// Calls the local proxy in server/, which holds the API key and forwards to Gemini
+export class ProxyImageProvider implements ImageProvider {
+  readonly id = 'gemini-proxy';
+  readonly name = 'Gemini 2.5 Flash Image (proxy)';
+  readonly modelVersion = GEMINI_MODEL;
+
+  constructor(private baseUrl: string) {}
+
+  async generateImage(request: GenerationRequest, options: RequestOptions = {}): Promise<ImageResult> {
+    return this.post<ImageResult>('/generate', request, options);
+  }
+
+  async editImage(request: EditRequest, options: RequestOptions = {}): Promise<ImageResult> {
+    return this.post<ImageResult>('/edit', request, options);
+  }
+
+  async segmentImage(request: SegmentationRequest, options: RequestOptions = {}): Promise<SegmentationResponse> {
+    return this.post<SegmentationResponse>('/segment', request, { signal: options.signal });
+  }
+
+  async describeImage(request: DescribeRequest, options: RequestOptions = {}): Promise<string> {
+    const { text } = await this.post<{ text: string }>('/describe', request, { signal: options.signal });
+    return text;
+  }
+
+  // Aborting the fetch also closes the connection, which stops the proxy's upstream call
+  private async post<T>(path: string, body: object, options: RequestOptions): Promise<T> {
+    const { signal, onProgress } = options;
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          // Asks the proxy to stream progress instead of waiting for the whole result
+          ...(onProgress && { Accept: STREAM_CONTENT_TYPE }),
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw new CancelledError();
+      console.error('Proxy request failed:', error);
+      throw new NetworkError('Could not reach the image proxy. Is the server running?');
+    }
+
+    if (response.ok && response.headers.get('Content-Type')?.startsWith(STREAM_CONTENT_TYPE)) {
+      return this.readStream<T>(response, options);
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (signal?.aborted) throw new CancelledError();
+    if (!response.ok) {
+      // The proxy reports typed errors; anything else came from in between
+      if (payload?.kind) throw deserializeImageError(payload as SerializedImageError);
+      if (response.status === 413) {
+        throw new InvalidInputError('Images are too large for the proxy. Try smaller or fewer images.');
+      }
+      if (response.status === 429) {
+        throw new RateLimitError('Too many requests to the image proxy.');
+      }
+      if (response.status >= 500) {
+        throw new NetworkError('Could not reach the image proxy. Is the server running?');
+      }
+      throw new InvalidInputError(payload?.error || `Proxy request failed (${response.status})`);
+    }
+    return payload as T;
+  }
+
+  private async readStream<T>(response: Response, { signal, onProgress }: RequestOptions): Promise<T> {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+          const line = JSON.parse(buffer.slice(0, newline)) as ProxyStreamLine<T>;
+          buffer = buffer.slice(newline + 1);
+          if (line.type === 'progress') {
+            onProgress?.(line.progress);
+          } else if (line.type === 'result') {
+            return line.result;
+          } else {
+            throw deserializeImageError(line.error);
+          }
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) throw new CancelledError();
+      if (error instanceof ImageProviderError) throw error;
+      console.error('Proxy stream failed:', error);
+      throw new NetworkError('The connection to the image proxy was interrupted.');
+    }
+    throw new NetworkError('The image proxy closed the connection before finishing.');
+  }
+}
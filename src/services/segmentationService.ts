@@ -0,0 +1,98 @@
+import { ImageProvider, RequestOptions, SegmentedRegion } from './imageProvider';
+import { SegmentationMask, SegmentationResult } from '../types';
+import { createImageFromBase64, generateId } from '../utils/imageUtils';
+
+// Mask pixels are probabilities; anything brighter than this counts as selected
+const MASK_THRESHOLD = 127;
+
+const DEFAULT_FEATHER = 5;
+
+export class SegmentationService {
+  // Asks the provider for regions matching the query and decodes them against the image
+  static async segment(
+    provider: ImageProvider,
+    image: string,
+    query: string,
+    options: RequestOptions = {}
+  ): Promise<SegmentationResult> {
+    const [{ regions, usage }, source] = await Promise.all([
+      provider.segmentImage({ image, query }, options),
+      createImageFromBase64(image),
+    ]);
+    const result = await this.decode(regions, source.naturalWidth, source.naturalHeight);
+    return { ...result, usage };
+  }
+
+  // Regions whose mask selects nothing are dropped
+  static async decode(regions: SegmentedRegion[], width: number, height: number): Promise<SegmentationResult> {
+    const masks: SegmentationMask[] = [];
+    for (const region of regions) {
+      const mask = await this.decodeRegion(region, width, height);
+      if (mask) masks.push(mask);
+    }
+    return { masks, width, height };
+  }
+
+  private static async decodeRegion(
+    region: SegmentedRegion,
+    width: number,
+    height: number
+  ): Promise<SegmentationMask | null> {
+    const left = Math.round(region.box.x * width);
+    const top = Math.round(region.box.y * height);
+    const boxWidth = Math.min(width - left, Math.round(region.box.width * width));
+    const boxHeight = Math.min(height - top, Math.round(region.box.height * height));
+    if (boxWidth <= 0 || boxHeight <= 0) return null;
+
+    const selected = await this.readBoxMask(region.mask, boxWidth, boxHeight);
+    const imageData = new ImageData(width, height);
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+
+    for (let y = 0; y < boxHeight; y++) {
+      for (let x = 0; x < boxWidth; x++) {
+        if (selected && selected[(y * boxWidth + x) * 4] <= MASK_THRESHOLD) continue;
+
+        const px = left + x;
+        const py = top + y;
+        imageData.data.fill(255, (py * width + px) * 4, (py * width + px) * 4 + 4);
+        minX = Math.min(minX, px);
+        minY = Math.min(minY, py);
+        maxX = Math.max(maxX, px);
+        maxY = Math.max(maxY, py);
+      }
+    }
+    if (maxX < 0) return null;
+
+    return {
+      id: generateId(),
+      label: region.label || undefined,
+      imageData,
+      bounds: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+      feather: DEFAULT_FEATHER,
+    };
+  }
+
+  // The mask stretched over its box, or null when the region has no mask (or it
+  // can't be decoded) and the whole box counts as selected
+  private static async readBoxMask(
+    mask: string | undefined,
+    width: number,
+    height: number
+  ): Promise<Uint8ClampedArray | null> {
+    if (!mask) return null;
+
+    let image: HTMLImageElement;
+    try {
+      image = await createImageFromBase64(mask);
+    } catch {
+      return null;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+  }
+}
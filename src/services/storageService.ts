@@ -0,0 +1,163 @@
+import { CacheService, CachedAssetInfo } from './cacheService';
+import { Project } from '../types';
+import { getProjectAssetIds } from '../utils/projectUtils';
+
+// Fraction of the browser quota at which we start warning the user
+export const QUOTA_WARNING_RATIO = 0.8;
+export const QUOTA_CRITICAL_RATIO = 0.95;
+
+// Fresh assets may belong to a generation that hasn't been added to a project yet
+const ORPHAN_GRACE_PERIOD = 10 * 60 * 1000;
+
+export interface ProjectUsage {
+  project: Project;
+  bytes: number;
+  assetCount: number;
+  missingAssetCount: number;
+  lastAccessedAt: number;
+}
+
+export interface StorageUsage {
+  // From navigator.storage.estimate(); null where the browser doesn't support it
+  usage: number | null;
+  quota: number | null;
+  assetBytes: number;
+  orphanBytes: number;
+  orphanCount: number;
+  projects: ProjectUsage[];
+}
+
+export interface EvictionResult {
+  evictedCount: number;
+  freedBytes: number;
+}
+
+export type QuotaLevel = 'ok' | 'warning' | 'critical';
+
+export class StorageService {
+  static async estimate(): Promise<{ usage: number | null; quota: number | null }> {
+    if (!navigator.storage?.estimate) return { usage: null, quota: null };
+    const { usage, quota } = await navigator.storage.estimate();
+    return { usage: usage ?? null, quota: quota ?? null };
+  }
+
+  static getQuotaLevel(usage: number | null, quota: number | null): QuotaLevel {
+    if (usage === null || !quota) return 'ok';
+    const ratio = usage / quota;
+    if (ratio >= QUOTA_CRITICAL_RATIO) return 'critical';
+    if (ratio >= QUOTA_WARNING_RATIO) return 'warning';
+    return 'ok';
+  }
+
+  // Saved projects, with the open project's in-memory copy taking precedence
+  private static async getProjects(openProject: Project | null): Promise<Project[]> {
+    const saved = await CacheService.getAllProjects();
+    return openProject
+      ? [openProject, ...saved.filter(p => p.id !== openProject.id)]
+      : saved;
+  }
+
+  static async getUsage(openProject: Project | null): Promise<StorageUsage> {
+    const [estimate, projects, assets] = await Promise.all([
+      this.estimate(),
+      this.getProjects(openProject),
+      CacheService.getAllCachedAssets()
+    ]);
+    const assetsById = new Map(assets.map(info => [info.asset.id, info]));
+    const referenced = new Set<string>();
+
+    const projectUsage = projects.map(project => {
+      let bytes = 0;
+      let assetCount = 0;
+      let missingAssetCount = 0;
+      let lastAccessedAt = project.updatedAt;
+
+      for (const id of getProjectAssetIds(project)) {
+        referenced.add(id);
+        const info = assetsById.get(id);
+        if (!info) {
+          missingAssetCount++;
+          continue;
+        }
+        bytes += info.size;
+        assetCount++;
+        lastAccessedAt = Math.max(lastAccessedAt, info.lastAccessedAt);
+      }
+      return { project, bytes, assetCount, missingAssetCount, lastAccessedAt };
+    });
+
+    const orphans = assets.filter(info => !referenced.has(info.asset.id));
+
+    return {
+      ...estimate,
+      assetBytes: assets.reduce((sum, info) => sum + info.size, 0),
+      orphanBytes: orphans.reduce((sum, info) => sum + info.size, 0),
+      orphanCount: orphans.length,
+      projects: projectUsage.sort((a, b) => b.bytes - a.bytes)
+    };
+  }
+
+  // Deletes assets that no project refers to
+  static async removeUnusedAssets(openProject: Project | null): Promise<EvictionResult> {
+    const [projects, assets] = await Promise.all([
+      this.getProjects(openProject),
+      CacheService.getAllCachedAssets()
+    ]);
+    const referencedIds = new Set(projects.flatMap(project => [...getProjectAssetIds(project)]));
+    const result: EvictionResult = { evictedCount: 0, freedBytes: 0 };
+
+    for (const info of assets) {
+      if (referencedIds.has(info.asset.id) || Date.now() - info.cachedAt <= ORPHAN_GRACE_PERIOD) continue;
+      await CacheService.deleteAsset(info.asset.id);
+      result.evictedCount++;
+      result.freedBytes += info.size;
+    }
+
+    return result;
+  }
+
+  // Deletes assets until stored asset bytes fit under maxBytes. Assets no project
+  // refers to go first, then least recently used assets of unpinned projects.
+  // Pinned projects, the open project and projects open in other tabs are never touched.
+  static async evict(
+    maxBytes: number,
+    openProject: Project | null,
+    otherOpenProjectIds: string[] = []
+  ): Promise<EvictionResult> {
+    const [projects, assets] = await Promise.all([
+      this.getProjects(openProject),
+      CacheService.getAllCachedAssets()
+    ]);
+
+    const protectedIds = new Set<string>();
+    const referencedIds = new Set<string>();
+    projects.forEach(project => {
+      const ids = getProjectAssetIds(project);
+      ids.forEach(id => referencedIds.add(id));
+      if (project.pinned || project.id === openProject?.id || otherOpenProjectIds.includes(project.id)) {
+        ids.forEach(id => protectedIds.add(id));
+      }
+    });
+
+    const byPriority = (a: CachedAssetInfo, b: CachedAssetInfo) => a.lastAccessedAt - b.lastAccessedAt;
+    const orphans = assets
+      .filter(info => !referencedIds.has(info.asset.id) && Date.now() - info.cachedAt > ORPHAN_GRACE_PERIOD)
+      .sort(byPriority);
+    const evictable = assets
+      .filter(info => referencedIds.has(info.asset.id) && !protectedIds.has(info.asset.id))
+      .sort(byPriority);
+
+    let total = assets.reduce((sum, info) => sum + info.size, 0);
+    const result: EvictionResult = { evictedCount: 0, freedBytes: 0 };
+
+    for (const info of [...orphans, ...evictable]) {
+      if (total <= maxBytes) break;
+      await CacheService.deleteAsset(info.asset.id);
+      total -= info.size;
+      result.evictedCount++;
+      result.freedBytes += info.size;
+    }
+
+    return result;
+  }
+}
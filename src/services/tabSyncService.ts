@@ -0,0 +1,61 @@
+import { Project } from '../types';
+import { generateId } from '../utils/imageUtils';
+
+const CHANNEL_NAME = 'nano-banana-sync';
+
+export type TabSyncMessage =
+  | { type: 'project-updated'; tabId: string; project: Project }
+  | { type: 'project-deleted'; tabId: string; projectId: string }
+  | { type: 'presence'; tabId: string; projectId: string | null; reply: boolean }
+  | { type: 'leave'; tabId: string };
+
+type TabSyncListener = (message: TabSyncMessage) => void;
+
+// Thin wrapper around a BroadcastChannel shared by every open editor tab.
+// Browsers without BroadcastChannel simply don't sync.
+export class TabSyncService {
+  readonly tabId = generateId();
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<TabSyncListener>();
+
+  constructor() {
+    if (typeof BroadcastChannel === 'undefined') return;
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+      if (event.data?.tabId === this.tabId) return;
+      this.listeners.forEach(listener => listener(event.data));
+    };
+  }
+
+  subscribe(listener: TabSyncListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  publishProject(project: Project): void {
+    this.post({ type: 'project-updated', tabId: this.tabId, project });
+  }
+
+  publishDeletion(projectId: string): void {
+    this.post({ type: 'project-deleted', tabId: this.tabId, projectId });
+  }
+
+  announcePresence(projectId: string | null, reply: boolean = false): void {
+    this.post({ type: 'presence', tabId: this.tabId, projectId, reply });
+  }
+
+  announceLeave(): void {
+    this.post({ type: 'leave', tabId: this.tabId });
+  }
+
+  private post(message: TabSyncMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.error('Failed to sync with other tabs:', error);
+    }
+  }
+}
+
+export const tabSyncService = new TabSyncService();
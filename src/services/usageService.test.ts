@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Budgets, UsageEntry, UsageService, getDayKey } from './usageService';
+
+const budgets = (changes: Partial<Budgets> = {}): Budgets => ({
+  daily: { soft: null, hard: null },
+  project: { soft: null, hard: null },
+  ...changes
+});
+
+describe('UsageService.getBudgetStatus', () => {
+  it('is ok without limits or under them', () => {
+    expect(UsageService.getBudgetStatus(100, 100, budgets())).toEqual({ level: 'ok' });
+    expect(UsageService.getBudgetStatus(1, 1, budgets({ daily: { soft: 2, hard: 5 } }))).toEqual({ level: 'ok' });
+  });
+
+  it('warns once spend reaches a soft limit', () => {
+    const status = UsageService.getBudgetStatus(0.5, 2, budgets({ project: { soft: 2, hard: null } }));
+    expect(status.level).toBe('warning');
+    expect(status.message).toContain("This project's");
+  });
+
+  it('blocks once spend reaches a hard limit', () => {
+    const status = UsageService.getBudgetStatus(5, 0, budgets({ daily: { soft: null, hard: 5 } }));
+    expect(status.level).toBe('blocked');
+    expect(status.message).toContain('$5.00');
+  });
+
+  it('reports a hard limit before any soft one', () => {
+    const status = UsageService.getBudgetStatus(3, 10, budgets({
+      daily: { soft: 1, hard: 10 },
+      project: { soft: null, hard: 10 }
+    }));
+    expect(status.level).toBe('blocked');
+    expect(status.message).toContain("This project's");
+  });
+
+  it('reports the daily budget before the project budget', () => {
+    const status = UsageService.getBudgetStatus(3, 3, budgets({
+      daily: { soft: 1, hard: null },
+      project: { soft: 1, hard: null }
+    }));
+    expect(status.message).toContain("Today's");
+  });
+});
+
+describe('UsageService.estimateCost', () => {
+  const usage = { inputTokens: 1_000_000, outputTokens: 2_000_000 };
+
+  it('prices tokens per million, preferring overrides', () => {
+    const overrides = { custom: { inputPerMillion: 1, outputPerMillion: 2 } };
+    expect(UsageService.estimateCost('custom', usage, overrides)).toBe(5);
+    expect(UsageService.estimateCost('mock-procedural-v1', usage, {})).toBe(0);
+  });
+
+  it('is undefined for models without a known price', () => {
+    expect(UsageService.estimateCost('unknown-model', usage, {})).toBeUndefined();
+  });
+});
+
+describe('UsageService.getDailySpend', () => {
+  it('totals each of the last days, including days without spend', () => {
+    const now = new Date(2025, 2, 14, 12).getTime();
+    const day = 24 * 60 * 60 * 1000;
+    const entry = (timestamp: number, cost: number): UsageEntry => ({
+      timestamp,
+      projectId: null,
+      modelVersion: 'mock-procedural-v1',
+      usage: { inputTokens: 0, outputTokens: 0 },
+      cost
+    });
+
+    const spend = UsageService.getDailySpend([entry(now, 1), entry(now - 1000, 2), entry(now - 2 * day, 4), entry(now - 9 * day, 8)], 3, now);
+    expect(spend).toEqual([
+      { day: getDayKey(now - 2 * day), cost: 4, requests: 1 },
+      { day: getDayKey(now - day), cost: 0, requests: 0 },
+      { day: '2025-03-14', cost: 3, requests: 2 }
+    ]);
+  });
+});
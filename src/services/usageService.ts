@@ -0,0 +1,138 @@
+import { GEMINI_MODEL } from './geminiService';
+import { Project, TokenUsage } from '../types';
+
+// US dollars per million tokens
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Published prices at the time of writing; each can be overridden in the Usage panel.
+// An image costs 1290 output tokens, so about $0.039 at these rates.
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  [GEMINI_MODEL]: { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'mock-procedural-v1': { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+// One billed request, kept even after its project is deleted since the money was spent
+export interface UsageEntry {
+  timestamp: number;
+  projectId: string | null;
+  modelVersion: string;
+  usage: TokenUsage;
+  cost: number;
+}
+
+// Soft limits warn before submitting; hard limits block. null means no limit.
+export interface BudgetLimits {
+  soft: number | null;
+  hard: number | null;
+}
+
+export interface Budgets {
+  daily: BudgetLimits;
+  project: BudgetLimits;
+}
+
+export type BudgetLevel = 'ok' | 'warning' | 'blocked';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  message?: string;
+}
+
+export interface DailySpend {
+  day: string;
+  cost: number;
+  requests: number;
+}
+
+// Local calendar day, e.g. "2025-03-14"
+export function getDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export class UsageService {
+  static getPrice(modelVersion: string, overrides: Record<string, ModelPrice>): ModelPrice | null {
+    return overrides[modelVersion] ?? DEFAULT_PRICES[modelVersion] ?? null;
+  }
+
+  // Undefined when the model has no known price, rather than pretending it was free
+  static estimateCost(
+    modelVersion: string,
+    usage: TokenUsage,
+    overrides: Record<string, ModelPrice>
+  ): number | undefined {
+    const price = this.getPrice(modelVersion, overrides);
+    if (!price) return undefined;
+    return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+  }
+
+  static addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+    if (!a || !b) return a ?? b;
+    return { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens };
+  }
+
+  static getProjectSpend(project: Project | null): number {
+    if (!project) return 0;
+    return [...project.generations, ...project.edits].reduce((sum, item) => sum + (item.costEstimate ?? 0), 0);
+  }
+
+  static getSpendOn(entries: UsageEntry[], day: string): number {
+    return entries
+      .filter(entry => getDayKey(entry.timestamp) === day)
+      .reduce((sum, entry) => sum + entry.cost, 0);
+  }
+
+  // The last `days` calendar days, oldest first, including days with no spend
+  static getDailySpend(entries: UsageEntry[], days: number, now: number = Date.now()): DailySpend[] {
+    const totals = new Map<string, DailySpend>();
+    for (let i = days - 1; i >= 0; i--) {
+      const date = new Date(now);
+      date.setDate(date.getDate() - i);
+      const day = getDayKey(date.getTime());
+      totals.set(day, { day, cost: 0, requests: 0 });
+    }
+    for (const entry of entries) {
+      const total = totals.get(getDayKey(entry.timestamp));
+      if (total) {
+        total.cost += entry.cost;
+        total.requests++;
+      }
+    }
+    return [...totals.values()];
+  }
+
+  // Hard limits win over soft ones, and the daily budget is reported before the project's
+  static getBudgetStatus(todaySpend: number, projectSpend: number, budgets: Budgets): BudgetStatus {
+    const checks: Array<{ spent: number; limits: BudgetLimits; label: string }> = [
+      { spent: todaySpend, limits: budgets.daily, label: "Today's" },
+      { spent: projectSpend, limits: budgets.project, label: "This project's" },
+    ];
+
+    for (const { spent, limits, label } of checks) {
+      if (limits.hard !== null && spent >= limits.hard) {
+        return {
+          level: 'blocked',
+          message: `${label} spend of ${formatCost(spent)} has reached the ${formatCost(limits.hard)} limit.`
+        };
+      }
+    }
+    for (const { spent, limits, label } of checks) {
+      if (limits.soft !== null && spent >= limits.soft) {
+        return {
+          level: 'warning',
+          message: `${label} spend of ${formatCost(spent)} is over the ${formatCost(limits.soft)} budget.`
+        };
+      }
+    }
+    return { level: 'ok' };
+  }
+}
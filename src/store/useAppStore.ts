@@ -1,13 +1,23 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import { Project, Generation, Edit, SegmentationMask, BrushStroke } from '../types';
+import { Project, BrushStroke, SegmentationMask, SavedMask, MaskTool, ResponseModality, AspectRatio } from '../types';
+import { generateId } from '../utils/imageUtils';
+import { getLatestOutput } from '../utils/projectUtils';
+import { QuotaLevel } from '../services/storageService';
+
+// Strokes painted on one image, with those undone kept for redo
+interface StrokeHistory {
+  strokes: BrushStroke[];
+  undone: BrushStroke[];
+}
 
 interface AppState {
   // Current project
   currentProject: Project | null;
   
-  // Canvas state
+  // Canvas state (a stored asset, or a plain URL for images not saved as assets)
   canvasImage: string | null;
+  canvasAssetId: string | null;
   canvasZoom: number;
   canvasPan: { x: number; y: number };
   
@@ -15,16 +25,35 @@ interface AppState {
   uploadedImages: string[];
   editReferenceImages: string[];
   
-  // Brush strokes for painting masks
+  // Brush strokes for painting masks on the current image, plus those undone
+  // for redo; other images' strokes wait in strokeHistories until shown again
   brushStrokes: BrushStroke[];
+  undoneBrushStrokes: BrushStroke[];
+  strokeHistories: Record<string, StrokeHistory>;
   brushSize: number;
   showMasks: boolean;
   
+  // How the Select tool turns pointer input into a selection
+  maskTool: MaskTool;
+  wandTolerance: number;
+  wandContiguous: boolean;
+  
+  // Masks found by text selection, awaiting the user's pick, and the accepted edit mask
+  maskCandidates: SegmentationMask[];
+  selectedMask: SegmentationMask | null;
+  // Refinements being tried on the selection, shown instead of it until applied
+  maskPreview: SegmentationMask | null;
+  
   // Generation state
-  isGenerating: boolean;
   currentPrompt: string;
   temperature: number;
   seed: number | null;
+  topP: number | null;
+  topK: number | null;
+  candidateCount: number;
+  variantCount: number;
+  responseModalities: ResponseModality[];
+  aspectRatio: AspectRatio;
   
   // History and variants
   selectedGenerationId: string | null;
@@ -36,10 +65,19 @@ interface AppState {
   
   // UI state
   selectedTool: 'generate' | 'edit' | 'mask';
+  storageLevel: QuotaLevel;
+  sharedProjectTabs: number;
+  // Projects open in other tabs, whose images storage eviction must leave alone
+  otherTabProjectIds: string[];
   
   // Actions
   setCurrentProject: (project: Project | null) => void;
+  createProject: (title?: string) => void;
+  switchProject: (project: Project | null) => void;
+  renameProject: (title: string) => void;
+  setProjectPinned: (pinned: boolean) => void;
   setCanvasImage: (url: string | null) => void;
+  setCanvasAsset: (assetId: string | null) => void;
   setCanvasZoom: (zoom: number) => void;
   setCanvasPan: (pan: { x: number; y: number }) => void;
   
@@ -52,17 +90,31 @@ interface AppState {
   clearEditReferenceImages: () => void;
   
   addBrushStroke: (stroke: BrushStroke) => void;
+  undoBrushStroke: () => void;
+  redoBrushStroke: () => void;
   clearBrushStrokes: () => void;
   setBrushSize: (size: number) => void;
   setShowMasks: (show: boolean) => void;
+  setMaskTool: (tool: MaskTool) => void;
+  setWandTolerance: (tolerance: number) => void;
+  setWandContiguous: (contiguous: boolean) => void;
+  setMaskCandidates: (masks: SegmentationMask[]) => void;
+  setSelectedMask: (mask: SegmentationMask | null) => void;
+  setMaskPreview: (mask: SegmentationMask | null) => void;
   
-  setIsGenerating: (generating: boolean) => void;
   setCurrentPrompt: (prompt: string) => void;
   setTemperature: (temp: number) => void;
   setSeed: (seed: number | null) => void;
+  setTopP: (topP: number | null) => void;
+  setTopK: (topK: number | null) => void;
+  setCandidateCount: (count: number) => void;
+  setVariantCount: (count: number) => void;
+  setResponseModalities: (modalities: ResponseModality[]) => void;
+  setAspectRatio: (aspectRatio: AspectRatio) => void;
+  resetGenerationSettings: () => void;
   
-  addGeneration: (generation: Generation) => void;
-  addEdit: (edit: Edit) => void;
+  addSavedMask: (mask: SavedMask) => void;
+  renameSavedMask: (id: string, name: string) => void;
   selectGeneration: (id: string | null) => void;
   selectEdit: (id: string | null) => void;
   setShowHistory: (show: boolean) => void;
@@ -70,14 +122,83 @@ interface AppState {
   setShowPromptPanel: (show: boolean) => void;
   
   setSelectedTool: (tool: 'generate' | 'edit' | 'mask') => void;
+  setStorageLevel: (level: QuotaLevel) => void;
+  setSharedProjectTabs: (count: number) => void;
+  setOtherTabProjectIds: (ids: string[]) => void;
 }
 
+// Advanced panel defaults; null means "let the model decide"
+const DEFAULT_GENERATION_SETTINGS = {
+  temperature: 0.7,
+  seed: null,
+  topP: null,
+  topK: null,
+  candidateCount: 1,
+  variantCount: 1,
+  responseModalities: ['IMAGE', 'TEXT'] as ResponseModality[],
+  aspectRatio: '1:1' as AspectRatio,
+};
+
+// Per-project workspace state that must not leak across a project switch.
+// The canvas opens on the project's most recent output, if any.
+const getWorkspaceReset = (project: Project | null): Partial<AppState> => {
+  const latest = project ? getLatestOutput(project) : null;
+  return {
+    canvasImage: null,
+    canvasAssetId: latest?.assetId || null,
+    canvasZoom: 1,
+    canvasPan: { x: 0, y: 0 },
+    uploadedImages: [],
+    editReferenceImages: [],
+    brushStrokes: [],
+    undoneBrushStrokes: [],
+    strokeHistories: {},
+    maskCandidates: [],
+    selectedMask: null,
+    maskPreview: null,
+    selectedGenerationId: latest?.generationId || null,
+    selectedEditId: latest?.editId || null
+  };
+};
+
+// Keeps the outgoing image's strokes and brings back the incoming image's.
+// Selections are sized to the image they were made on, so they are dropped.
+const swapStrokeHistory = (
+  state: AppState,
+  next: Pick<AppState, 'canvasImage' | 'canvasAssetId'>
+): Partial<AppState> => {
+  const currentKey = state.canvasAssetId ?? state.canvasImage;
+  const nextKey = next.canvasAssetId ?? next.canvasImage;
+  if (currentKey === nextKey) return next;
+
+  const strokeHistories = { ...state.strokeHistories };
+  if (currentKey) {
+    if (state.brushStrokes.length > 0 || state.undoneBrushStrokes.length > 0) {
+      strokeHistories[currentKey] = { strokes: state.brushStrokes, undone: state.undoneBrushStrokes };
+    } else {
+      delete strokeHistories[currentKey];
+    }
+  }
+
+  const restored = nextKey ? strokeHistories[nextKey] : undefined;
+  return {
+    ...next,
+    strokeHistories,
+    brushStrokes: restored?.strokes ?? [],
+    undoneBrushStrokes: restored?.undone ?? [],
+    maskCandidates: [],
+    selectedMask: null,
+    maskPreview: null
+  };
+};
+
 export const useAppStore = create<AppState>()(
   devtools(
-    (set, get) => ({
+    (set) => ({
       // Initial state
       currentProject: null,
       canvasImage: null,
+      canvasAssetId: null,
       canvasZoom: 1,
       canvasPan: { x: 0, y: 0 },
       
@@ -85,13 +206,19 @@ export const useAppStore = create<AppState>()(
       editReferenceImages: [],
       
       brushStrokes: [],
+      undoneBrushStrokes: [],
+      strokeHistories: {},
       brushSize: 20,
       showMasks: true,
+      maskTool: 'brush',
+      wandTolerance: 32,
+      wandContiguous: true,
+      maskCandidates: [],
+      selectedMask: null,
+      maskPreview: null,
       
-      isGenerating: false,
       currentPrompt: '',
-      temperature: 0.7,
-      seed: null,
+      ...DEFAULT_GENERATION_SETTINGS,
       
       selectedGenerationId: null,
       selectedEditId: null,
@@ -100,10 +227,42 @@ export const useAppStore = create<AppState>()(
       showPromptPanel: true,
       
       selectedTool: 'generate',
+      storageLevel: 'ok',
+      sharedProjectTabs: 0,
+      otherTabProjectIds: [],
       
       // Actions
       setCurrentProject: (project) => set({ currentProject: project }),
-      setCanvasImage: (url) => set({ canvasImage: url }),
+      createProject: (title = 'Untitled Project') => set({
+        ...getWorkspaceReset(null),
+        currentProject: {
+          id: generateId(),
+          title,
+          generations: [],
+          edits: [],
+          createdAt: Date.now(),
+          updatedAt: Date.now()
+        }
+      }),
+      switchProject: (project) => set({
+        ...getWorkspaceReset(project),
+        currentProject: project
+      }),
+      renameProject: (title) => set((state) => ({
+        currentProject: state.currentProject ? {
+          ...state.currentProject,
+          title,
+          updatedAt: Date.now()
+        } : null
+      })),
+      setProjectPinned: (pinned) => set((state) => ({
+        currentProject: state.currentProject ? {
+          ...state.currentProject,
+          pinned
+        } : null
+      })),
+      setCanvasImage: (url) => set((state) => swapStrokeHistory(state, { canvasImage: url, canvasAssetId: null })),
+      setCanvasAsset: (assetId) => set((state) => swapStrokeHistory(state, { canvasAssetId: assetId, canvasImage: null })),
       setCanvasZoom: (zoom) => set({ canvasZoom: zoom }),
       setCanvasPan: (pan) => set({ canvasPan: pan }),
       
@@ -124,29 +283,49 @@ export const useAppStore = create<AppState>()(
       clearEditReferenceImages: () => set({ editReferenceImages: [] }),
       
       addBrushStroke: (stroke) => set((state) => ({ 
-        brushStrokes: [...state.brushStrokes, stroke] 
+        brushStrokes: [...state.brushStrokes, stroke],
+        undoneBrushStrokes: []
       })),
-      clearBrushStrokes: () => set({ brushStrokes: [] }),
+      undoBrushStroke: () => set((state) => state.brushStrokes.length === 0 ? {} : {
+        brushStrokes: state.brushStrokes.slice(0, -1),
+        undoneBrushStrokes: [...state.undoneBrushStrokes, state.brushStrokes[state.brushStrokes.length - 1]]
+      }),
+      redoBrushStroke: () => set((state) => state.undoneBrushStrokes.length === 0 ? {} : {
+        brushStrokes: [...state.brushStrokes, state.undoneBrushStrokes[state.undoneBrushStrokes.length - 1]],
+        undoneBrushStrokes: state.undoneBrushStrokes.slice(0, -1)
+      }),
+      clearBrushStrokes: () => set({ brushStrokes: [], undoneBrushStrokes: [] }),
       setBrushSize: (size) => set({ brushSize: size }),
       setShowMasks: (show) => set({ showMasks: show }),
+      setMaskTool: (tool) => set({ maskTool: tool }),
+      setWandTolerance: (tolerance) => set({ wandTolerance: tolerance }),
+      setWandContiguous: (contiguous) => set({ wandContiguous: contiguous }),
+      setMaskCandidates: (masks) => set({ maskCandidates: masks }),
+      setSelectedMask: (mask) => set({ selectedMask: mask }),
+      setMaskPreview: (mask) => set({ maskPreview: mask }),
       
-      setIsGenerating: (generating) => set({ isGenerating: generating }),
       setCurrentPrompt: (prompt) => set({ currentPrompt: prompt }),
       setTemperature: (temp) => set({ temperature: temp }),
       setSeed: (seed) => set({ seed: seed }),
+      setTopP: (topP) => set({ topP }),
+      setTopK: (topK) => set({ topK }),
+      setCandidateCount: (count) => set({ candidateCount: count }),
+      setVariantCount: (count) => set({ variantCount: count }),
+      setResponseModalities: (modalities) => set({ responseModalities: modalities }),
+      setAspectRatio: (aspectRatio) => set({ aspectRatio }),
+      resetGenerationSettings: () => set(DEFAULT_GENERATION_SETTINGS),
       
-      addGeneration: (generation) => set((state) => ({
+      addSavedMask: (mask) => set((state) => ({
         currentProject: state.currentProject ? {
           ...state.currentProject,
-          generations: [...state.currentProject.generations, generation],
+          masks: [...(state.currentProject.masks || []), mask],
           updatedAt: Date.now()
         } : null
       })),
-      
-      addEdit: (edit) => set((state) => ({
+      renameSavedMask: (id, name) => set((state) => ({
         currentProject: state.currentProject ? {
           ...state.currentProject,
-          edits: [...state.currentProject.edits, edit],
+          masks: state.currentProject.masks?.map(mask => mask.id === id ? { ...mask, name, updatedAt: Date.now() } : mask),
           updatedAt: Date.now()
         } : null
       })),
@@ -158,6 +337,9 @@ export const useAppStore = create<AppState>()(
       setShowPromptPanel: (show) => set({ showPromptPanel: show }),
       
       setSelectedTool: (tool) => set({ selectedTool: tool }),
+      setStorageLevel: (level) => set({ storageLevel: level }),
+      setSharedProjectTabs: (count) => set({ sharedProjectTabs: count }),
+      setOtherTabProjectIds: (ids) => set({ otherTabProjectIds: ids }),
     }),
     { name: 'nano-banana-store' }
   )
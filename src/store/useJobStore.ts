@@ -0,0 +1,140 @@
+import { create } from 'zustand';
+import { useSettingsStore } from './useSettingsStore';
+import { CancelledError } from '../services/imageErrors';
+import { generateId } from '../utils/imageUtils';
+
+export type JobType = 'generate' | 'edit' | 'select';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// Live state of a running request, built up from streamed progress events
+export interface JobProgress {
+  text: string;
+  imageCount: number;
+  complete: boolean;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  prompt: string;
+  status: JobStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  progress?: JobProgress;
+}
+
+// Does the work for a job; resolving marks it succeeded, rejecting failed or cancelled
+export type JobRunner = (id: string) => Promise<unknown>;
+
+interface JobState {
+  jobs: Job[];
+
+  enqueueJob: (type: JobType, prompt: string, run: JobRunner) => string;
+  setJobProgress: (id: string, progress: JobProgress) => void;
+  cancelJob: (id: string) => void;
+  cancelAllJobs: () => void;
+  clearFinishedJobs: () => void;
+}
+
+export const MAX_CONCURRENT_JOBS = 4;
+
+// Only the most recent finished jobs are kept; this is a session log, not history
+const MAX_FINISHED_JOBS = 50;
+
+// AbortControllers and runners aren't serialisable state, so they live beside the store
+const controllers = new Map<string, AbortController>();
+const runners = new Map<string, JobRunner>();
+
+export function getJobSignal(id: string): AbortSignal | undefined {
+  return controllers.get(id)?.signal;
+}
+
+export function isActiveJob(job: Job): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+const pruneFinished = (jobs: Job[]): Job[] => {
+  const finished = jobs.filter(job => !isActiveJob(job));
+  const excess = finished.length - MAX_FINISHED_JOBS;
+  if (excess <= 0) return jobs;
+  const dropped = new Set(finished.slice(0, excess));
+  return jobs.filter(job => !dropped.has(job));
+};
+
+const updateJob = (id: string, changes: Partial<Job>) => {
+  useJobStore.setState((state) => ({
+    jobs: pruneFinished(state.jobs.map(job => job.id === id ? { ...job, ...changes } : job))
+  }));
+};
+
+const finishJob = (id: string, status: 'succeeded' | 'failed' | 'cancelled', error?: string) => {
+  controllers.delete(id);
+  runners.delete(id);
+  updateJob(id, { status, error, finishedAt: Date.now() });
+  startQueuedJobs();
+};
+
+// Starts queued jobs in submission order until the concurrency limit is reached
+const startQueuedJobs = () => {
+  const { jobs } = useJobStore.getState();
+  const limit = useSettingsStore.getState().maxConcurrentJobs;
+  let running = jobs.filter(job => job.status === 'running').length;
+
+  for (const job of jobs) {
+    if (running >= limit) break;
+    const run = runners.get(job.id);
+    if (job.status !== 'queued' || !run) continue;
+
+    runners.delete(job.id);
+    updateJob(job.id, { status: 'running', startedAt: Date.now() });
+    running++;
+
+    run(job.id).then(
+      () => finishJob(job.id, 'succeeded'),
+      (error: Error) => finishJob(
+        job.id,
+        error instanceof CancelledError ? 'cancelled' : 'failed',
+        error instanceof CancelledError ? undefined : error.message
+      )
+    );
+  }
+};
+
+export const useJobStore = create<JobState>()((set, get) => ({
+  jobs: [],
+
+  enqueueJob: (type, prompt, run) => {
+    const id = generateId();
+    controllers.set(id, new AbortController());
+    runners.set(id, run);
+    set((state) => ({
+      jobs: [...state.jobs, { id, type, prompt, status: 'queued' as const, createdAt: Date.now() }]
+    }));
+    startQueuedJobs();
+    return id;
+  },
+  setJobProgress: (id, progress) => updateJob(id, { progress }),
+  cancelJob: (id) => {
+    const job = get().jobs.find(j => j.id === id);
+    if (job?.status === 'queued') {
+      // Never started, so there is no request to abort
+      finishJob(id, 'cancelled');
+    } else {
+      // The running request rejects with a CancelledError, which finishes the job
+      controllers.get(id)?.abort();
+    }
+  },
+  cancelAllJobs: () => {
+    get().jobs.filter(isActiveJob).forEach(job => get().cancelJob(job.id));
+  },
+  clearFinishedJobs: () => set((state) => ({
+    jobs: state.jobs.filter(isActiveJob)
+  })),
+}));
+
+// Raising the limit should start waiting jobs straight away
+useSettingsStore.subscribe((state, previous) => {
+  if (state.maxConcurrentJobs !== previous.maxConcurrentJobs) startQueuedJobs();
+});
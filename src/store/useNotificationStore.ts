@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import { generateId } from '../utils/imageUtils';
+
+export type NotificationType = 'error' | 'warning' | 'success' | 'info';
+
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message?: string;
+  action?: NotificationAction;
+  // Milliseconds before auto-dismissal; null keeps it until dismissed
+  duration: number | null;
+}
+
+interface NotificationState {
+  notifications: Notification[];
+
+  notify: (notification: Omit<Notification, 'id' | 'duration'> & { duration?: number | null }) => string;
+  dismiss: (id: string) => void;
+}
+
+const DEFAULT_DURATION = 6000;
+// Oldest toasts drop off once this many are on screen
+const MAX_NOTIFICATIONS = 4;
+
+export const useNotificationStore = create<NotificationState>()((set) => ({
+  notifications: [],
+
+  notify: (notification) => {
+    const id = generateId();
+    set((state) => ({
+      notifications: [
+        ...state.notifications,
+        { duration: DEFAULT_DURATION, ...notification, id }
+      ].slice(-MAX_NOTIFICATIONS)
+    }));
+    return id;
+  },
+  dismiss: (id) => set((state) => ({
+    notifications: state.notifications.filter(n => n.id !== id)
+  })),
+}));
@@ -0,0 +1,65 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { ProviderId } from '../services/providerRegistry';
+import type { Budgets, ModelPrice } from '../services/usageService';
+
+// User preferences that should survive reloads, kept apart from per-session state
+interface SettingsState {
+  // Storage
+  storageCapBytes: number | null;
+
+  // Image model
+  providerId: ProviderId;
+
+  // Generation queue
+  maxConcurrentJobs: number;
+  // Stream responses so progress and partial text show while waiting
+  streamResponses: boolean;
+
+  // Costs; prices override the built-in table per model version
+  priceOverrides: Record<string, ModelPrice>;
+  budgets: Budgets;
+
+  // Actions
+  setStorageCapBytes: (bytes: number | null) => void;
+  setProviderId: (id: ProviderId) => void;
+  setMaxConcurrentJobs: (count: number) => void;
+  setStreamResponses: (stream: boolean) => void;
+  setPriceOverride: (modelVersion: string, price: ModelPrice | null) => void;
+  setBudgets: (budgets: Budgets) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  devtools(
+    persist(
+      (set) => ({
+        storageCapBytes: null,
+        providerId: 'gemini',
+        maxConcurrentJobs: 2,
+        streamResponses: true,
+        priceOverrides: {},
+        budgets: {
+          daily: { soft: null, hard: null },
+          project: { soft: null, hard: null },
+        },
+
+        setStorageCapBytes: (bytes) => set({ storageCapBytes: bytes }),
+        setProviderId: (id) => set({ providerId: id }),
+        setMaxConcurrentJobs: (count) => set({ maxConcurrentJobs: count }),
+        setStreamResponses: (stream) => set({ streamResponses: stream }),
+        setPriceOverride: (modelVersion, price) => set((state) => {
+          const priceOverrides = { ...state.priceOverrides };
+          if (price) {
+            priceOverrides[modelVersion] = price;
+          } else {
+            delete priceOverrides[modelVersion];
+          }
+          return { priceOverrides };
+        }),
+        setBudgets: (budgets) => set({ budgets }),
+      }),
+      { name: 'nano-banana-settings' }
+    ),
+    { name: 'nano-banana-settings' }
+  )
+);
@@ -0,0 +1,32 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { UsageEntry } from '../services/usageService';
+
+// Long enough for monthly totals without growing localStorage forever
+const RETENTION_DAYS = 90;
+
+// A ledger of billed requests across all projects, used for daily totals and budgets
+interface UsageState {
+  entries: UsageEntry[];
+
+  recordUsage: (entry: UsageEntry) => void;
+  clearUsage: () => void;
+}
+
+export const useUsageStore = create<UsageState>()(
+  devtools(
+    persist(
+      (set) => ({
+        entries: [],
+
+        recordUsage: (entry) => set((state) => {
+          const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+          return { entries: [...state.entries.filter(e => e.timestamp >= cutoff), entry] };
+        }),
+        clearUsage: () => set({ entries: [] }),
+      }),
+      { name: 'nano-banana-usage' }
+    ),
+    { name: 'nano-banana-usage' }
+  )
+);
@@ -1,35 +1,68 @@
+// Asset bytes are stored as Blobs in CacheService and looked up by id
 export interface Asset {
   id: string;
   type: 'original' | 'mask' | 'output';
-  url: string;
   mime: string;
   width: number;
   height: number;
+  size: number;
   checksum: string;
 }
 
+export type ResponseModality = 'IMAGE' | 'TEXT';
+
+export type AspectRatio = '1:1' | '3:2' | '2:3' | '4:3' | '3:4' | '16:9' | '9:16' | '21:9';
+
+// Model settings sent with a request and recorded with its result
+export interface GenerationParameters {
+  seed?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  candidateCount?: number;
+  responseModalities?: ResponseModality[];
+  // Generation only; edits keep the shape of their source image
+  aspectRatio?: AspectRatio;
+}
+
+// Tokens billed for one or more requests, as reported by the model
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
 export interface Generation {
   id: string;
   prompt: string;
-  parameters: {
-    seed?: number;
-    temperature?: number;
-  };
+  parameters: GenerationParameters;
   sourceAssets: Asset[];
   outputAssets: Asset[];
   modelVersion: string;
   timestamp: number;
+  usage?: TokenUsage;
+  // US dollars, from usage and the price table at the time
   costEstimate?: number;
+  // Number of requests the prompt was fanned out to, each with its own seed
+  variantCount?: number;
+  // Seed of the request behind each output asset, in the same order
+  variantSeeds?: number[];
+  // Text the model wrote alongside its images
+  responseText?: string;
 }
 
 export interface Edit {
   id: string;
   parentGenerationId: string;
+  // The project's saved mask (by asset id) the edit was confined to
   maskAssetId?: string;
   maskReferenceAsset?: Asset;
   instruction: string;
+  parameters?: GenerationParameters;
   outputAssets: Asset[];
   timestamp: number;
+  responseText?: string;
+  usage?: TokenUsage;
+  costEstimate?: number;
 }
 
 export interface Project {
@@ -39,10 +72,40 @@ export interface Project {
   edits: Edit[];
   createdAt: number;
   updatedAt: number;
+  // Pinned projects are never evicted to free storage
+  pinned?: boolean;
+  // Missing in projects saved before masks were kept
+  masks?: SavedMask[];
+}
+
+// A mask kept for reuse: a black and white PNG asset, white where selected,
+// made on one image and named so it can be found again
+export interface SavedMask {
+  id: string;
+  name: string;
+  asset: Asset;
+  // The image it was drawn on, when that image is a stored asset
+  sourceAssetId: string | null;
+  timestamp: number;
+  // Last rename, so merging copies from other tabs keeps the newest name
+  updatedAt: number;
+}
+
+export interface SessionState {
+  projectId: string | null;
+  canvasImage: string | null;
+  canvasAssetId: string | null;
+  selectedGenerationId: string | null;
+  selectedEditId: string | null;
+  currentPrompt: string;
+  savedAt: number;
 }
 
+// imageData is the size of the whole source image: selected pixels are opaque
+// white and everything else is transparent
 export interface SegmentationMask {
   id: string;
+  label?: string;
   imageData: ImageData;
   bounds: {
     x: number;
@@ -53,13 +116,28 @@ export interface SegmentationMask {
   feather: number;
 }
 
+export interface SegmentationResult {
+  masks: SegmentationMask[];
+  width: number;
+  height: number;
+  // What the request was billed; absent when regions are decoded on their own
+  usage?: TokenUsage;
+}
+
+// Freehand strokes are round-capped lines through `points`. Shapes are filled:
+// rectangles and ellipses span the two corner points [x0, y0, x1, y1], and
+// polygons (from the lasso and polygon tools) join their points in order.
 export interface BrushStroke {
   id: string;
   points: number[];
   brushSize: number;
-  color: string;
+  // Erase strokes take away from everything painted or selected before them
+  mode: 'paint' | 'erase';
+  shape?: 'rectangle' | 'ellipse' | 'polygon';
 }
 
+export type MaskTool = 'brush' | 'erase' | 'wand' | 'rectangle' | 'ellipse' | 'lasso' | 'polygon';
+
 export interface PromptHint {
   category: 'subject' | 'scene' | 'action' | 'style' | 'camera';
   text: string;
@@ -0,0 +1,50 @@
+import { Asset, GenerationParameters, TokenUsage } from '../types';
+import type { JobProgress } from '../store/useJobStore';
+import { getImageExtension } from './imageUtils';
+import { formatCost } from '../services/usageService';
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+export function formatAssetSize(asset: Asset): string {
+  return `${asset.width}×${asset.height} ${getImageExtension(asset.mime).toUpperCase()} · ${formatBytes(asset.size)}`;
+}
+
+// Label/value rows for the parameters that were actually sent
+export function formatParameters(parameters: GenerationParameters = {}): Array<[string, string]> {
+  const rows: Array<[string, string]> = [];
+  if (parameters.temperature !== undefined) rows.push(['Creativity', String(parameters.temperature)]);
+  if (parameters.seed !== undefined) rows.push(['Seed', String(parameters.seed)]);
+  if (parameters.topP !== undefined) rows.push(['Top P', String(parameters.topP)]);
+  if (parameters.topK !== undefined) rows.push(['Top K', String(parameters.topK)]);
+  if (parameters.candidateCount !== undefined) rows.push(['Images requested', String(parameters.candidateCount)]);
+  if (parameters.responseModalities) rows.push(['Output', parameters.responseModalities.join(' + ')]);
+  if (parameters.aspectRatio) rows.push(['Aspect ratio', parameters.aspectRatio]);
+  return rows;
+}
+
+export function formatUsage({ usage, costEstimate }: { usage?: TokenUsage; costEstimate?: number }): Array<[string, string]> {
+  const rows: Array<[string, string]> = [];
+  if (usage) {
+    rows.push(['Tokens', `${usage.inputTokens.toLocaleString()} in · ${usage.outputTokens.toLocaleString()} out`]);
+  }
+  if (costEstimate !== undefined) rows.push(['Est. cost', formatCost(costEstimate)]);
+  return rows;
+}
+
+// One-line status for a running request; without streaming there is nothing to report
+export function formatJobProgress(progress?: JobProgress): string {
+  if (progress?.complete) return 'Saving...';
+  if (progress?.imageCount) return `Received ${progress.imageCount} image${progress.imageCount !== 1 ? 's' : ''}`;
+  if (progress?.text) return 'The model is writing...';
+  return 'Creating your image...';
+}
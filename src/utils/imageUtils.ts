@@ -1,3 +1,5 @@
+import { AspectRatio } from '../types';
+
 export function base64ToBlob(base64: string, mimeType: string = 'image/png'): Blob {
   const byteCharacters = atob(base64);
   const byteNumbers = new Array(byteCharacters.length);
@@ -23,6 +25,68 @@ export function blobToBase64(blob: Blob): Promise<string> {
   });
 }
 
+// Works for data URLs as well as object and remote URLs
+export async function urlToBase64(url: string | null | undefined): Promise<string | null> {
+  if (!url) return null;
+  if (url.includes('base64,')) return url.split('base64,')[1];
+  
+  const response = await fetch(url);
+  return blobToBase64(await response.blob());
+}
+
+// Output sizes Gemini 2.5 Flash Image produces for each supported aspect ratio
+export const ASPECT_RATIO_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  '1:1': { width: 1024, height: 1024 },
+  '3:2': { width: 1248, height: 832 },
+  '2:3': { width: 832, height: 1248 },
+  '4:3': { width: 1184, height: 864 },
+  '3:4': { width: 864, height: 1184 },
+  '16:9': { width: 1344, height: 768 },
+  '9:16': { width: 768, height: 1344 },
+  '21:9': { width: 1536, height: 672 },
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+export function getImageExtension(mime: string): string {
+  return MIME_EXTENSIONS[mime] || 'bin';
+}
+
+// Identifies an image from its magic bytes; declared types are often wrong or missing
+export function detectImageMime(bytes: Uint8Array): string | null {
+  const matches = (signature: number[], offset: number = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+
+  if (matches([0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (matches([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (matches([0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+  // RIFF....WEBP
+  if (matches([0x52, 0x49, 0x46, 0x46]) && matches([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  return null;
+}
+
+export function detectBase64Mime(base64: string): string {
+  // 16 base64 characters decode to the 12 header bytes detectImageMime looks at
+  const header = Uint8Array.from(atob(base64.slice(0, 16)), char => char.charCodeAt(0));
+  return detectImageMime(header) || 'image/png';
+}
+
+// Decodes an image blob to learn its real type and pixel dimensions
+export async function readImageInfo(blob: Blob): Promise<{ mime: string; width: number; height: number }> {
+  const header = new Uint8Array(await blob.slice(0, 12).arrayBuffer());
+  const mime = detectImageMime(header) || blob.type || 'image/png';
+
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+  bitmap.close();
+  return { mime, width, height };
+}
+
 export function createImageFromBase64(base64: string): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const img = new Image();
@@ -49,7 +113,10 @@ export function generateId(): string {
 }
 
 export function downloadImage(base64: string, filename: string): void {
-  const blob = base64ToBlob(base64);
+  downloadBlob(base64ToBlob(base64), filename);
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   
   const a = document.createElement('a');
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { mergeProjects } from './projectUtils';
+import { Asset, Edit, Generation, Project, SavedMask } from '../types';
+
+const asset = (id: string): Asset => ({
+  id,
+  type: 'output',
+  mime: 'image/png',
+  width: 1024,
+  height: 1024,
+  size: 100,
+  checksum: `checksum-${id}`
+});
+
+const generation = (id: string, timestamp: number, outputs: string[]): Generation => ({
+  id,
+  prompt: id,
+  parameters: {},
+  sourceAssets: [],
+  outputAssets: outputs.map(asset),
+  modelVersion: 'mock-procedural-v1',
+  timestamp
+});
+
+const edit = (id: string, timestamp: number): Edit => ({
+  id,
+  parentGenerationId: 'g1',
+  instruction: id,
+  outputAssets: [asset(`${id}-out`)],
+  timestamp
+});
+
+const mask = (id: string, name: string, updatedAt: number): SavedMask => ({
+  id,
+  name,
+  asset: asset(`${id}-mask`),
+  sourceAssetId: null,
+  timestamp: 1,
+  updatedAt
+});
+
+const project = (changes: Partial<Project>): Project => ({
+  id: 'p1',
+  title: 'Project',
+  generations: [],
+  edits: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...changes
+});
+
+describe('mergeProjects', () => {
+  it('keeps edits from both copies in timestamp order', () => {
+    const local = project({ edits: [edit('e1', 1), edit('e3', 3)] });
+    const remote = project({ edits: [edit('e1', 1), edit('e2', 2)] });
+
+    expect(mergeProjects(local, remote).edits.map(e => e.id)).toEqual(['e1', 'e2', 'e3']);
+  });
+
+  it('keeps the copy of a generation with the most variants', () => {
+    const local = project({ generations: [generation('g1', 1, ['a', 'b', 'c'])] });
+    const remote = project({ generations: [generation('g1', 1, ['a']), generation('g2', 2, ['d'])], updatedAt: 5 });
+
+    const merged = mergeProjects(local, remote);
+    expect(merged.generations.map(g => g.outputAssets.length)).toEqual([3, 1]);
+    expect(mergeProjects(remote, local).generations[0].outputAssets).toHaveLength(3);
+  });
+
+  it('keeps the most recently renamed copy of a mask whichever side it is on', () => {
+    const older = project({ masks: [mask('m1', 'Old name', 1)] });
+    const newer = project({ masks: [mask('m1', 'New name', 2), mask('m2', 'Other', 1)] });
+
+    expect(mergeProjects(older, newer).masks!.map(m => m.name)).toEqual(['New name', 'Other']);
+    expect(mergeProjects(newer, older).masks!.map(m => m.name)).toEqual(['New name', 'Other']);
+  });
+
+  it('handles projects saved before masks were kept', () => {
+    const merged = mergeProjects(project({}), project({ masks: [mask('m1', 'Mask', 1)] }));
+    expect(merged.masks).toHaveLength(1);
+  });
+
+  it('takes other fields from the more recently updated copy', () => {
+    const local = project({ title: 'Local', pinned: true, updatedAt: 10 });
+    const remote = project({ title: 'Remote', updatedAt: 5 });
+
+    const merged = mergeProjects(local, remote);
+    expect(merged).toMatchObject({ title: 'Local', pinned: true, updatedAt: 10 });
+    expect(mergeProjects(remote, local)).toMatchObject({ title: 'Local', updatedAt: 10 });
+  });
+});
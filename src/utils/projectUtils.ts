@@ -0,0 +1,83 @@
+import { Project, Asset } from '../types';
+import { generateId } from './imageUtils';
+
+export interface LatestOutput {
+  assetId: string;
+  generationId: string | null;
+  editId: string | null;
+}
+
+// Most recent image produced in a project, whether by a generation or an edit
+export function getLatestOutput(project: Project): LatestOutput | null {
+  const lastGeneration = project.generations[project.generations.length - 1];
+  const lastEdit = project.edits[project.edits.length - 1];
+  
+  if (lastEdit?.outputAssets[0] && (!lastGeneration || lastEdit.timestamp >= lastGeneration.timestamp)) {
+    return { assetId: lastEdit.outputAssets[0].id, generationId: null, editId: lastEdit.id };
+  }
+  if (lastGeneration?.outputAssets[0]) {
+    return { assetId: lastGeneration.outputAssets[0].id, generationId: lastGeneration.id, editId: null };
+  }
+  return null;
+}
+
+export function duplicateProject(project: Project): Project {
+  const now = Date.now();
+  return {
+    ...structuredClone(project),
+    id: generateId(),
+    title: `${project.title} (copy)`,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+// Every stored asset a project refers to, without duplicates
+export function getProjectAssets(project: Project): Asset[] {
+  const assets = new Map<string, Asset>();
+  project.generations.forEach(generation => {
+    generation.sourceAssets.forEach(asset => assets.set(asset.id, asset));
+    generation.outputAssets.forEach(asset => assets.set(asset.id, asset));
+  });
+  project.edits.forEach(edit => {
+    edit.outputAssets.forEach(asset => assets.set(asset.id, asset));
+    if (edit.maskReferenceAsset) assets.set(edit.maskReferenceAsset.id, edit.maskReferenceAsset);
+  });
+  project.masks?.forEach(mask => assets.set(mask.asset.id, mask.asset));
+  return [...assets.values()];
+}
+
+export function getProjectAssetIds(project: Project): Set<string> {
+  return new Set(getProjectAssets(project).map(asset => asset.id));
+}
+
+// Combines two copies of the same project edited in different tabs. Edits are
+// only ever appended, so the union of both loses nothing. Generations also gain
+// variants in place as they finish; those all finish in the tab that queued
+// them, so the copy with more outputs is the most complete one. Masks can be
+// renamed, so the most recently changed copy wins.
+export function mergeProjects(local: Project, remote: Project): Project {
+  const union = <T extends { id: string; timestamp: number }>(
+    a: T[],
+    b: T[],
+    pick: (x: T, y: T) => T = (_, y) => y
+  ): T[] => {
+    const byId = new Map<string, T>();
+    [...a, ...b].forEach(item => {
+      const existing = byId.get(item.id);
+      byId.set(item.id, existing ? pick(existing, item) : item);
+    });
+    return [...byId.values()].sort((x, y) => x.timestamp - y.timestamp);
+  };
+  const newer = remote.updatedAt >= local.updatedAt ? remote : local;
+
+  return {
+    ...newer,
+    generations: union(local.generations, remote.generations, (x, y) =>
+      x.outputAssets.length > y.outputAssets.length ? x : y
+    ),
+    edits: union(local.edits, remote.edits),
+    masks: union(local.masks || [], remote.masks || [], (x, y) => x.updatedAt > y.updatedAt ? x : y),
+    updatedAt: Math.max(local.updatedAt, remote.updatedAt)
+  };
+}
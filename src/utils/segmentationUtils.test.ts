@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { getMaskColor, parseSegmentationResponse } from './segmentationUtils';
+
+const region = (box: unknown[], extra: Record<string, unknown> = {}) => ({ box_2d: box, label: 'cat', ...extra });
+
+describe('parseSegmentationResponse', () => {
+  it('reads JSON from a fenced block', () => {
+    const reply = '```json\n' + JSON.stringify([region([100, 200, 300, 600])]) + '\n```';
+    const [result] = parseSegmentationResponse(reply)!;
+
+    expect(result.label).toBe('cat');
+    expect(result.box.x).toBeCloseTo(0.2);
+    expect(result.box.y).toBeCloseTo(0.1);
+    expect(result.box.width).toBeCloseTo(0.4);
+    expect(result.box.height).toBeCloseTo(0.2);
+  });
+
+  it('finds JSON wrapped in prose', () => {
+    const reply = `Here is what I found: ${JSON.stringify([region([0, 0, 500, 500])])} Let me know if you need more.`;
+    expect(parseSegmentationResponse(reply)).toHaveLength(1);
+  });
+
+  it('accepts a single object and a { masks } wrapper', () => {
+    expect(parseSegmentationResponse(JSON.stringify(region([0, 0, 500, 500])))).toHaveLength(1);
+    expect(parseSegmentationResponse(JSON.stringify({ masks: [region([0, 0, 500, 500]), region([500, 500, 1000, 1000])] })))
+      .toHaveLength(2);
+  });
+
+  it('treats boxes within 0–1 as fractions and larger ones as a 0–1000 grid', () => {
+    const [fraction] = parseSegmentationResponse(JSON.stringify([region([0.1, 0.2, 0.5, 0.6])]))!;
+    const [grid] = parseSegmentationResponse(JSON.stringify([region([100, 200, 500, 600])]))!;
+
+    expect(fraction.box.x).toBeCloseTo(0.2);
+    expect(fraction.box.width).toBeCloseTo(0.4);
+    expect(grid.box.x).toBeCloseTo(fraction.box.x);
+    expect(grid.box.width).toBeCloseTo(fraction.box.width);
+  });
+
+  it('orders swapped corners and clamps boxes to the image', () => {
+    const [result] = parseSegmentationResponse(JSON.stringify([region([600, 1200, 200, -50])]))!;
+    expect(result.box).toEqual({ x: 0, y: 0.2, width: 1, height: expect.closeTo(0.4) });
+  });
+
+  it('skips entries without a usable box', () => {
+    const reply = JSON.stringify([
+      region([100, 100, 100, 400]),
+      region([100, 200, 300]),
+      region(['a', 0, 10, 10]),
+      { label: 'no box' },
+      region([0, 0, 500, 500], { label: ' dog ' })
+    ]);
+    expect(parseSegmentationResponse(reply)!.map(r => r.label)).toEqual(['dog']);
+  });
+
+  it('keeps valid base64 masks and drops bad ones', () => {
+    const reply = JSON.stringify([
+      region([0, 0, 500, 500], { mask: 'data:image/png;base64,iVBO\nRw0K' }),
+      region([0, 0, 500, 500], { mask: 'not base64!' }),
+      region([0, 0, 500, 500], { mask: 42 })
+    ]);
+    expect(parseSegmentationResponse(reply)!.map(r => r.mask)).toEqual(['iVBORw0K', undefined, undefined]);
+  });
+
+  it('returns null without JSON and an empty list when nothing in it is usable', () => {
+    expect(parseSegmentationResponse('I could not find a cat in this image.')).toBeNull();
+    expect(parseSegmentationResponse('[]')).toEqual([]);
+    expect(parseSegmentationResponse('{"answer": "none"}')).toEqual([]);
+  });
+});
+
+describe('getMaskColor', () => {
+  it('cycles through the palette', () => {
+    expect(getMaskColor(6)).toBe(getMaskColor(0));
+    expect(getMaskColor(1)).not.toBe(getMaskColor(0));
+  });
+});
@@ -0,0 +1,96 @@
+import { SegmentedRegion } from '../services/imageProvider';
+
+// Gemini's box_2d is [ymin, xmin, ymax, xmax] on a 0–1000 grid
+const BOX_SCALE = 1000;
+
+// Distinct colours for previewing several candidate masks at once
+const MASK_COLORS = ['#38BDF8', '#F472B6', '#34D399', '#FB923C', '#A78BFA', '#FACC15'];
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export function getMaskColor(index: number): string {
+  return MASK_COLORS[index % MASK_COLORS.length];
+}
+
+// Fenced blocks first, then the whole reply, then the outermost brackets,
+// since models like to wrap JSON in markdown or a sentence of explanation
+function findJsonCandidates(text: string): string[] {
+  const candidates: string[] = [];
+  for (const match of text.matchAll(/```(?:json)?\s*([\s\S]*?)```/gi)) {
+    candidates.push(match[1]);
+  }
+  candidates.push(text);
+
+  for (const [open, close] of [['[', ']'], ['{', '}']]) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1));
+  }
+  return candidates.map(candidate => candidate.trim()).filter(Boolean);
+}
+
+function parseJson(text: string): unknown {
+  for (const candidate of findJsonCandidates(text)) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+function toBox(value: unknown): SegmentedRegion['box'] | null {
+  if (!Array.isArray(value) || value.length !== 4) return null;
+  const numbers = value.map(Number);
+  if (!numbers.every(Number.isFinite)) return null;
+
+  // Some replies already use 0–1 fractions
+  const scale = numbers.every(n => n >= 0 && n <= 1) ? 1 : BOX_SCALE;
+  const clamp = (n: number) => Math.min(1, Math.max(0, n / scale));
+  const [y0, x0, y1, x1] = numbers.map(clamp);
+
+  const x = Math.min(x0, x1);
+  const y = Math.min(y0, y1);
+  const width = Math.abs(x1 - x0);
+  const height = Math.abs(y1 - y0);
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+}
+
+function toMask(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const data = (value.includes('base64,') ? value.split('base64,')[1] : value).replace(/\s/g, '');
+  return BASE64_PATTERN.test(data) ? data : undefined;
+}
+
+function toRegion(value: unknown): SegmentedRegion | null {
+  if (!value || typeof value !== 'object') return null;
+  const entry = value as Record<string, unknown>;
+
+  const box = toBox(entry.box_2d ?? entry.box ?? entry.bbox);
+  if (!box) return null;
+
+  return {
+    label: typeof entry.label === 'string' ? entry.label.trim() : '',
+    box,
+    mask: toMask(entry.mask),
+  };
+}
+
+// Reads a segmentation reply into regions, skipping entries that don't validate.
+// Returns null when the reply has no JSON at all, and an empty array when it
+// has JSON but nothing usable in it.
+export function parseSegmentationResponse(text: string): SegmentedRegion[] | null {
+  const json = parseJson(text);
+  if (json === undefined) return null;
+
+  const entries = Array.isArray(json)
+    ? json
+    : json && typeof json === 'object' && Array.isArray((json as { masks?: unknown }).masks)
+      ? (json as { masks: unknown[] }).masks
+      : [json];
+
+  return entries
+    .map(toRegion)
+    .filter((region): region is SegmentedRegion => region !== null);
+}